@@ -1,11 +1,16 @@
-import { Module } from "@nestjs/common";
+import { MiddlewareConsumer, Module, NestModule } from "@nestjs/common";
 import { MongooseModule } from "@nestjs/mongoose";
 import { ConfigModule, ConfigService } from "@nestjs/config";
+import { ScheduleModule } from "@nestjs/schedule";
 import { PointModule } from "./point/point.module";
+import { TransactionModule } from "./common/transaction/transaction.module";
+import { LockModule } from "./common/lock/lock.module";
+import { RequestContextMiddleware } from "./common/middleware/requestContext.middleware";
 
 @Module({
   imports: [
     ConfigModule.forRoot(),
+    ScheduleModule.forRoot(),
     MongooseModule.forRootAsync({
       imports: [ConfigService],
       useFactory: async (configService: ConfigService) => ({
@@ -17,7 +22,13 @@ import { PointModule } from "./point/point.module";
       }),
       inject: [ConfigService],
     }),
+    TransactionModule.forRoot(),
+    LockModule.forRoot(),
     PointModule,
   ],
 })
-export class AppModule {}
+export class AppModule implements NestModule {
+  configure(consumer: MiddlewareConsumer) {
+    consumer.apply(RequestContextMiddleware).forRoutes("{*splat}");
+  }
+}
@@ -0,0 +1,25 @@
+import { Logger } from "@nestjs/common";
+import { NestFactory } from "@nestjs/core";
+import { AppModule } from "../app.module";
+import { PointBackfillService } from "../point/service/pointBackfill.service";
+
+// 사용법: npm run backfill
+async function bootstrap() {
+  const logger = new Logger("Backfill");
+
+  const app = await NestFactory.createApplicationContext(AppModule, {
+    logger: ["error", "warn", "log"],
+  });
+
+  try {
+    const result = await app.get(PointBackfillService).backfillAll();
+    logger.log(
+      `Checked ${result.checkedUsers} users, ${result.backfilledUsers} backfilled` +
+        (result.failedUsers.length ? `, ${result.failedUsers.length} failed` : ""),
+    );
+    process.exitCode = result.failedUsers.length ? 1 : 0;
+  } finally {
+    await app.close();
+  }
+}
+bootstrap();
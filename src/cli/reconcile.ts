@@ -0,0 +1,40 @@
+import { Logger } from "@nestjs/common";
+import { NestFactory } from "@nestjs/core";
+import { AppModule } from "../app.module";
+import { PointReconciliationService } from "../point/service/pointReconciliation.service";
+
+// 사용법: npm run reconcile -- [--repair] [--user <userId>]
+async function bootstrap() {
+  const logger = new Logger("Reconcile");
+  const args = process.argv.slice(2);
+  const repair = args.includes("--repair");
+  const userIndex = args.indexOf("--user");
+  const userId = userIndex >= 0 ? args[userIndex + 1] : undefined;
+
+  const app = await NestFactory.createApplicationContext(AppModule, {
+    logger: ["error", "warn", "log"],
+  });
+
+  try {
+    const result = await app
+      .get(PointReconciliationService)
+      .reconcile({ userId, repair });
+    for (const mismatch of result.mismatches) {
+      logger.warn(
+        `Mismatch for user ${mismatch.userId}: expected ${JSON.stringify(mismatch.expected)}, ` +
+          `actual ${JSON.stringify(mismatch.actual)}` +
+          (mismatch.repaired ? " (repaired)" : "") +
+          (mismatch.needsBackfill ? " (run backfill before repairing)" : ""),
+      );
+    }
+    logger.log(
+      `Checked ${result.checkedUsers} users, ${result.mismatches.length} mismatches, ` +
+        `${result.repairedUsers} repaired` +
+        (result.failedUsers.length ? `, ${result.failedUsers.length} failed` : ""),
+    );
+    process.exitCode = result.failedUsers.length ? 1 : 0;
+  } finally {
+    await app.close();
+  }
+}
+bootstrap();
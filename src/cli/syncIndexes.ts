@@ -0,0 +1,28 @@
+import { Logger } from "@nestjs/common";
+import { NestFactory } from "@nestjs/core";
+import { getConnectionToken } from "@nestjs/mongoose";
+import { Connection } from "mongoose";
+import { AppModule } from "../app.module";
+
+// 사용법: npm run sync-indexes
+// 스키마에서 바뀌거나 빠진 인덱스는 autoIndex로 교체되지 않으므로 배포 후 한 번 실행한다
+async function bootstrap() {
+  const logger = new Logger("SyncIndexes");
+
+  const app = await NestFactory.createApplicationContext(AppModule, {
+    logger: ["error", "warn", "log"],
+  });
+
+  try {
+    const dropped = await app.get<Connection>(getConnectionToken()).syncIndexes();
+    for (const [modelName, indexes] of Object.entries(dropped)) {
+      if (indexes.length) {
+        logger.log(`Dropped stale indexes of ${modelName}: ${indexes.join(", ")}`);
+      }
+    }
+    logger.log("Indexes are in sync with the schemas");
+  } finally {
+    await app.close();
+  }
+}
+bootstrap();
@@ -1,13 +1,16 @@
-import { InternalServerErrorException, Logger } from "@nestjs/common";
+import { Logger } from "@nestjs/common";
 import mongoose from "mongoose";
+import { DatabaseException } from "../exception";
+import { isRetryableTransactionError } from "../transaction/transaction.errors";
 
 function isMongooseError(error: any): boolean {
   return (
     error instanceof mongoose.Error || (error?.code && typeof error.code === "number")
   );
 }
+// 재시도 레이블이 붙은 오류는 @Transactional이 재시도할 수 있도록 감싸지 않는다
 function isDatabaseError(error: any): boolean {
-  return isMongooseError(error);
+  return isMongooseError(error) && !isRetryableTransactionError(error);
 }
 
 // Method
@@ -25,9 +28,9 @@ export function HandleDbErrors(
     } catch (error) {
       if (isDatabaseError(error)) {
         logger.error(`Database error in ${propertyName}:`, error);
-        throw new InternalServerErrorException(
-          `Database operation failed: ${error.message}`,
-        );
+        throw new DatabaseException(`Database operation failed: ${error.message}`, {
+          method: propertyName,
+        });
       }
       throw error;
     }
@@ -60,8 +63,9 @@ export function HandleAllDbErrors<T extends { new (...arg: any[]): {} }>(constru
             } catch (error) {
               if (isDatabaseError(error)) {
                 logger.error(`Database error in ${methodName}:`, error);
-                throw new InternalServerErrorException(
+                throw new DatabaseException(
                   `Database error in ${methodName}: ${error.message}`,
+                  { method: methodName },
                 );
               }
               throw error;
@@ -201,6 +201,15 @@ describe("HandleDbErrors Decorator", () => {
         throw new Error("Regular error");
       }
 
+      async writeConflict(): Promise<string> {
+        const error = new mongoose.mongo.MongoServerError({
+          message: "WriteConflict",
+          code: 112,
+        });
+        error.addErrorLabel("TransientTransactionError");
+        throw error;
+      }
+
       // 동기 메서드는 처리되지 않아야 함
       syncMethod(): string {
         throw new mongoose.Error.ValidationError();
@@ -259,6 +268,18 @@ describe("HandleDbErrors Decorator", () => {
       expect(mockLoggerError).not.toHaveBeenCalled();
     });
 
+    it("재시도 레이블이 붙은 트랜잭션 오류는 그대로 던져야 한다", async () => {
+      const error = await testRepository.writeConflict().catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(mongoose.mongo.MongoServerError);
+      expect(
+        (error as mongoose.mongo.MongoServerError).hasErrorLabel(
+          "TransientTransactionError",
+        ),
+      ).toBe(true);
+      expect(mockLoggerError).not.toHaveBeenCalled();
+    });
+
     it("동기 메서드는 데코레이터가 적용되지 않아야 한다", () => {
       expect(() => testRepository.syncMethod()).toThrow(mongoose.Error.ValidationError);
       expect(mockLoggerError).not.toHaveBeenCalled();
@@ -294,6 +315,17 @@ describe("HandleDbErrors Decorator", () => {
       expect(mockLoggerError).toHaveBeenCalledTimes(2);
     });
 
+    it("UnknownTransactionCommitResult 레이블이 붙은 오류는 처리되지 않아야 한다", async () => {
+      const commitError = new mongoose.mongo.MongoServerError({
+        message: "commit result unknown",
+        code: 50,
+      });
+      commitError.addErrorLabel("UnknownTransactionCommitResult");
+
+      await expect(testRepository.testError(commitError)).rejects.toBe(commitError);
+      expect(mockLoggerError).not.toHaveBeenCalled();
+    });
+
     it("일반 Error는 처리되지 않아야 한다", async () => {
       const regularError = new Error("Regular error");
       const customError = new TypeError("Type error");
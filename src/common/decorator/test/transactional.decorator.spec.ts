@@ -1,11 +1,13 @@
 import { Test, TestingModule } from "@nestjs/testing";
-import { ModuleRef } from "@nestjs/core";
+import { Injectable } from "@nestjs/common";
 import { Connection } from "mongoose";
-import { MongooseModule, getConnectionToken } from "@nestjs/mongoose";
-import { MongoMemoryReplSet } from "mongodb-memory-server";
-import { Transactional, setTransactionModuleRef } from "../transactional.decorator";
+import { getConnectionToken } from "@nestjs/mongoose";
+import { Transactional } from "../transactional.decorator";
 import { TransactionContextStorage } from "../../transaction/transaction.context";
+import { TransactionModule } from "../../transaction/transaction.module";
 import { withTransaction } from "../../transaction/transaction.util";
+import { Propagation } from "../../transaction/transaction.options";
+import { TransactionMetrics } from "../../transaction/transaction.metrics";
 
 // Mock dependencies
 jest.mock("../../transaction/transaction.util");
@@ -13,34 +15,76 @@ const mockWithTransaction = withTransaction as jest.MockedFunction<
   typeof withTransaction
 >;
 
+@Injectable()
+class TestService {
+  public state = "initial";
+
+  @Transactional()
+  async successMethod(value: string): Promise<string> {
+    return `processed: ${value}`;
+  }
+
+  @Transactional()
+  async errorMethod(): Promise<void> {
+    throw new Error("Test error");
+  }
+
+  @Transactional()
+  async methodWithMultipleArgs(a: number, b: string, c: boolean): Promise<object> {
+    return { a, b, c };
+  }
+
+  @Transactional({ propagation: Propagation.REQUIRES_NEW })
+  async requiresNewMethod(): Promise<string> {
+    return "requires new";
+  }
+
+  @Transactional({ connectionName: "audit" })
+  async auditMethod(): Promise<string> {
+    return "audit";
+  }
+
+  @Transactional({ connectionName: "unknown" })
+  async unknownConnectionMethod(): Promise<string> {
+    return "unknown";
+  }
+
+  @Transactional()
+  async updateState(newState: string): Promise<string> {
+    this.state = newState;
+    return this.state;
+  }
+
+  @Transactional()
+  async captureArgs(...args: any[]): Promise<any[]> {
+    return args;
+  }
+
+  @Transactional()
+  async delayedMethod(delay: number): Promise<string> {
+    await new Promise((resolve) => setTimeout(resolve, delay));
+    return `delayed ${delay}ms`;
+  }
+
+  @Transactional()
+  async chainedMethod(value: number): Promise<number> {
+    return Promise.resolve(value)
+      .then((v) => v * 2)
+      .then((v) => v + 1);
+  }
+
+  // Non-transactional method for comparison
+  async normalMethod(): Promise<string> {
+    return "normal result";
+  }
+}
+
 describe("Transactional Decorator", () => {
-  let moduleRef: ModuleRef;
   let mockConnection: Partial<Connection>;
-  let mockStorage: Partial<TransactionContextStorage>;
+  let mockAuditConnection: Partial<Connection>;
+  let storage: TransactionContextStorage;
   let testService: TestService;
 
-  class TestService {
-    @Transactional()
-    async successMethod(value: string): Promise<string> {
-      return `processed: ${value}`;
-    }
-
-    @Transactional()
-    async errorMethod(): Promise<void> {
-      throw new Error("Test error");
-    }
-
-    @Transactional()
-    async methodWithMultipleArgs(a: number, b: string, c: boolean): Promise<object> {
-      return { a, b, c };
-    }
-
-    // Non-transactional method for comparison
-    async normalMethod(): Promise<string> {
-      return "normal result";
-    }
-  }
-
   beforeEach(async () => {
     jest.clearAllMocks();
 
@@ -48,14 +92,13 @@ describe("Transactional Decorator", () => {
     mockConnection = {
       startSession: jest.fn(),
     };
-
-    mockStorage = {
-      run: jest.fn(),
-      getSession: jest.fn(),
+    mockAuditConnection = {
+      startSession: jest.fn(),
     };
 
     // Create test module
     const module: TestingModule = await Test.createTestingModule({
+      imports: [TransactionModule.forRoot()],
       providers: [
         TestService,
         {
@@ -63,17 +106,14 @@ describe("Transactional Decorator", () => {
           useValue: mockConnection,
         },
         {
-          provide: TransactionContextStorage,
-          useValue: mockStorage,
+          provide: getConnectionToken("audit"),
+          useValue: mockAuditConnection,
         },
       ],
     }).compile();
 
-    moduleRef = module.get<ModuleRef>(ModuleRef);
     testService = module.get<TestService>(TestService);
-
-    // Set module ref for decorator
-    setTransactionModuleRef(moduleRef);
+    storage = module.get<TransactionContextStorage>(TransactionContextStorage);
 
     // Default withTransaction mock implementation
     mockWithTransaction.mockImplementation(async (connection, storage, callback) => {
@@ -99,8 +139,10 @@ describe("Transactional Decorator", () => {
       expect(mockWithTransaction).toHaveBeenCalledTimes(1);
       expect(mockWithTransaction).toHaveBeenCalledWith(
         mockConnection,
-        mockStorage,
+        storage,
         expect.any(Function),
+        { label: "TestService.successMethod" },
+        expect.any(TransactionMetrics),
       );
     });
 
@@ -125,23 +167,35 @@ describe("Transactional Decorator", () => {
       // Then
       expect(mockWithTransaction).toHaveBeenCalledWith(
         mockConnection,
-        mockStorage,
+        storage,
         expect.any(Function),
+        { label: "TestService.successMethod" },
+        expect.any(TransactionMetrics),
       );
 
       // Callback function should be the original method wrapped
       const callback = mockWithTransaction.mock.calls[0][2];
       expect(typeof callback).toBe("function");
     });
+
+    it("전파 옵션이 withTransaction에 전달되어야 함", async () => {
+      // When
+      const result = await testService.requiresNewMethod();
+
+      // Then
+      expect(result).toBe("requires new");
+      expect(mockWithTransaction).toHaveBeenCalledWith(
+        mockConnection,
+        storage,
+        expect.any(Function),
+        { label: "TestService.requiresNewMethod", propagation: Propagation.REQUIRES_NEW },
+        expect.any(TransactionMetrics),
+      );
+    });
   });
 
   describe("에러 케이스", () => {
     it("메서드에서 에러가 발생하면 에러가 전파되어야 함", async () => {
-      // Given
-      mockWithTransaction.mockImplementation(async (connection, storage, callback) => {
-        return await callback();
-      });
-
       // When & Then
       await expect(testService.errorMethod()).rejects.toThrow("Test error");
       expect(mockWithTransaction).toHaveBeenCalledTimes(1);
@@ -159,107 +213,60 @@ describe("Transactional Decorator", () => {
     });
   });
 
-  describe("ModuleRef 의존성", () => {
-    it("ModuleRef가 설정되지 않으면 에러를 던져야 함", async () => {
+  describe("TransactionModule 의존성", () => {
+    it("DI를 거치지 않고 생성된 인스턴스는 에러를 던져야 함", async () => {
       // Given
-      setTransactionModuleRef(null as any);
+      const serviceInstance = new TestService();
 
       // When & Then
-      await expect(testService.successMethod("test")).rejects.toThrow(
-        "[@Transactional] ModuleRef has not been set",
+      await expect(serviceInstance.successMethod("test")).rejects.toThrow(
+        "[@Transactional] TransactionManager is not available",
       );
+      expect(mockWithTransaction).not.toHaveBeenCalled();
     });
 
-    it("TransactionContextStorage를 찾을 수 없으면 에러를 던져야 함", async () => {
-      // Given
-      const moduleWithoutStorage = {
-        get: jest.fn().mockImplementation((token) => {
-          if (token === TransactionContextStorage) {
-            return null;
-          }
-          if (token === Connection) {
-            return mockConnection;
-          }
-          return null;
-        }),
-      } as any;
-
-      setTransactionModuleRef(moduleWithoutStorage);
+    it("connectionName으로 지정한 연결을 사용해야 함", async () => {
+      // When
+      await testService.auditMethod();
 
-      // When & Then
-      await expect(testService.successMethod("test")).rejects.toThrow(
-        "[@Transactional] Unable to resolve asyncContext or connection from DI",
+      // Then
+      expect(mockWithTransaction).toHaveBeenCalledWith(
+        mockAuditConnection,
+        storage,
+        expect.any(Function),
+        { label: "TestService.auditMethod" },
+        expect.any(TransactionMetrics),
       );
     });
 
     it("Connection을 찾을 수 없으면 에러를 던져야 함", async () => {
-      // Given
-      const moduleWithoutConnection = {
-        get: jest.fn().mockImplementation((token) => {
-          if (token === TransactionContextStorage) {
-            return mockStorage;
-          }
-          if (token === Connection) {
-            return null;
-          }
-          return null;
-        }),
-      } as any;
-
-      setTransactionModuleRef(moduleWithoutConnection);
-
       // When & Then
-      await expect(testService.successMethod("test")).rejects.toThrow(
-        "[@Transactional] Unable to resolve asyncContext or connection from DI",
+      await expect(testService.unknownConnectionMethod()).rejects.toThrow(
+        "[@Transactional] Unable to resolve connection",
       );
+      expect(mockWithTransaction).not.toHaveBeenCalled();
     });
   });
 
   describe("메서드 시그니처 보존", () => {
     it("원본 메서드의 this 컨텍스트가 보존되어야 함", async () => {
-      // Given
-      class ServiceWithState {
-        public state = "initial";
-
-        @Transactional()
-        async updateState(newState: string): Promise<string> {
-          this.state = newState;
-          return this.state;
-        }
-      }
-
-      const serviceInstance = new ServiceWithState();
-      setTransactionModuleRef(moduleRef);
-
       // When
-      const result = await serviceInstance.updateState("updated");
+      const result = await testService.updateState("updated");
 
       // Then
       expect(result).toBe("updated");
-      expect(serviceInstance.state).toBe("updated");
+      expect(testService.state).toBe("updated");
     });
 
     it("원본 메서드의 매개변수가 정확히 전달되어야 함", async () => {
       // Given
-      let capturedArgs: any[] = [];
-
-      class CaptureService {
-        @Transactional()
-        async captureArgs(...args: any[]): Promise<any[]> {
-          capturedArgs = args;
-          return args;
-        }
-      }
-
-      const captureService = new CaptureService();
       const testArgs = [1, "string", true, { obj: "value" }, [1, 2, 3]];
 
       // When
-      const result = await captureService.captureArgs(...testArgs);
+      const result = await testService.captureArgs(...testArgs);
 
       // Then
       expect(result).toEqual(testArgs);
-      expect(capturedArgs).toEqual(testArgs);
     });
   });
 
@@ -284,20 +291,9 @@ describe("Transactional Decorator", () => {
 
   describe("비동기 처리", () => {
     it("비동기 메서드의 결과를 올바르게 반환해야 함", async () => {
-      // Given
-      class AsyncService {
-        @Transactional()
-        async delayedMethod(delay: number): Promise<string> {
-          await new Promise((resolve) => setTimeout(resolve, delay));
-          return `delayed ${delay}ms`;
-        }
-      }
-
-      const asyncService = new AsyncService();
-
       // When
       const start = Date.now();
-      const result = await asyncService.delayedMethod(10);
+      const result = await testService.delayedMethod(10);
       const elapsed = Date.now() - start;
 
       // Then
@@ -307,20 +303,8 @@ describe("Transactional Decorator", () => {
     });
 
     it("Promise 체이닝이 올바르게 작동해야 함", async () => {
-      // Given
-      class ChainService {
-        @Transactional()
-        async chainedMethod(value: number): Promise<number> {
-          return Promise.resolve(value)
-            .then((v) => v * 2)
-            .then((v) => v + 1);
-        }
-      }
-
-      const chainService = new ChainService();
-
       // When
-      const result = await chainService.chainedMethod(5);
+      const result = await testService.chainedMethod(5);
 
       // Then
       expect(result).toBe(11); // (5 * 2) + 1
@@ -0,0 +1,179 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { Injectable } from "@nestjs/common";
+import { getConnectionToken } from "@nestjs/mongoose";
+import { WithUserLock } from "../withUserLock.decorator";
+import { Transactional } from "../transactional.decorator";
+import { LockService } from "../../lock/lock.service";
+import { TransactionModule } from "../../transaction/transaction.module";
+import { withTransaction } from "../../transaction/transaction.util";
+
+// Mock dependencies
+jest.mock("../../transaction/transaction.util");
+const mockWithTransaction = withTransaction as jest.MockedFunction<
+  typeof withTransaction
+>;
+
+@Injectable()
+class TestService {
+  @WithUserLock(0)
+  lockedMethod(userId: string, amount: number): Promise<string> {
+    return Promise.resolve(`${userId}:${amount}`);
+  }
+
+  @WithUserLock(1, { waitTimeoutMs: 100 })
+  lockedBySecondArg(fromUserId: string, toUserId: string): Promise<string> {
+    return Promise.resolve(`${fromUserId}->${toUserId}`);
+  }
+
+  @WithUserLock(0)
+  @Transactional()
+  lockedTransaction(userId: string, options: { now: Date } = { now: new Date() }) {
+    return Promise.resolve({ userId, options });
+  }
+
+  @WithUserLock((userId: string) => userId)
+  failingMethod(userId: string): Promise<void> {
+    return Promise.reject(new Error(`failed for ${userId}`));
+  }
+
+  // 구조 분해 매개변수도 추출 함수로 사용자 ID를 꺼낼 수 있다
+  @WithUserLock(({ userId }: { userId: string }) => userId)
+  lockedByExtractor({ userId }: { userId: string }): Promise<string> {
+    return Promise.resolve(userId);
+  }
+}
+
+describe("WithUserLock Decorator", () => {
+  let testService: TestService;
+  let mockLockService: { withLock: jest.Mock };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    mockLockService = {
+      withLock: jest.fn((key: string, fn: (lease: unknown) => Promise<unknown>) =>
+        fn({ key, fencingToken: 1 }),
+      ),
+    };
+    mockWithTransaction.mockImplementation(async (connection, storage, callback) => {
+      return await callback();
+    });
+
+    const module: TestingModule = await Test.createTestingModule({
+      imports: [TransactionModule.forRoot()],
+      providers: [
+        TestService,
+        { provide: LockService, useValue: mockLockService },
+        { provide: getConnectionToken(), useValue: { startSession: jest.fn() } },
+      ],
+    }).compile();
+
+    testService = module.get<TestService>(TestService);
+  });
+
+  describe("성공 케이스", () => {
+    it("인자 위치로 찾은 사용자 ID로 잠금을 얻어야 함", async () => {
+      // When
+      const result = await testService.lockedMethod("user-1", 100);
+
+      // Then
+      expect(result).toBe("user-1:100");
+      expect(mockLockService.withLock).toHaveBeenCalledWith(
+        "user:user-1",
+        expect.any(Function),
+        {},
+      );
+    });
+
+    it("첫 번째가 아닌 매개변수와 잠금 옵션을 사용할 수 있어야 함", async () => {
+      // When
+      await testService.lockedBySecondArg("user-1", "user-2");
+
+      // Then
+      expect(mockLockService.withLock).toHaveBeenCalledWith(
+        "user:user-2",
+        expect.any(Function),
+        { waitTimeoutMs: 100 },
+      );
+    });
+
+    it("@Transactional로 감싼 메서드에서도 잠금 안에서 트랜잭션이 실행되어야 함", async () => {
+      // When
+      await testService.lockedTransaction("user-1");
+
+      // Then : 잠금 안에서 트랜잭션이 실행되어야 한다
+      expect(mockLockService.withLock).toHaveBeenCalledWith(
+        "user:user-1",
+        expect.any(Function),
+        {},
+      );
+      expect(mockWithTransaction).toHaveBeenCalledTimes(1);
+      expect(mockLockService.withLock.mock.invocationCallOrder[0]).toBeLessThan(
+        mockWithTransaction.mock.invocationCallOrder[0],
+      );
+    });
+    it("추출 함수로 구조 분해된 인자에서 사용자 ID를 꺼내야 함", async () => {
+      // When
+      await testService.lockedByExtractor({ userId: "user-3" });
+
+      // Then
+      expect(mockLockService.withLock).toHaveBeenCalledWith(
+        "user:user-3",
+        expect.any(Function),
+        {},
+      );
+    });
+  });
+
+  describe("에러 케이스", () => {
+    it("메서드에서 발생한 에러가 전파되어야 함", async () => {
+      // When & Then
+      await expect(testService.failingMethod("user-1")).rejects.toThrow(
+        "failed for user-1",
+      );
+    });
+
+    it("사용자 ID 인자 없이 호출하면 에러가 발생해야 함", async () => {
+      // When & Then
+      await expect(
+        testService.lockedMethod(undefined as unknown as string, 100),
+      ).rejects.toThrow(
+        "[@WithUserLock] TestService.lockedMethod was called without a user id",
+      );
+      expect(mockLockService.withLock).not.toHaveBeenCalled();
+    });
+
+    it("문자열이나 숫자가 아닌 사용자 ID로는 잠그지 않아야 함", async () => {
+      // When & Then
+      await expect(
+        testService.lockedMethod({ id: "user-1" } as unknown as string, 100),
+      ).rejects.toThrow(
+        "[@WithUserLock] TestService.lockedMethod was called without a user id",
+      );
+      expect(mockLockService.withLock).not.toHaveBeenCalled();
+    });
+
+    it("잘못된 인자 위치면 선언 시점에 에러가 발생해야 함", () => {
+      // When & Then
+      expect(() => {
+        class InvalidService {
+          @WithUserLock(-1)
+          method(accountId: string): Promise<string> {
+            return Promise.resolve(accountId);
+          }
+        }
+        return InvalidService;
+      }).toThrow("[@WithUserLock] InvalidService.method has invalid argument index -1");
+    });
+
+    it("DI를 거치지 않은 인스턴스에서는 에러가 발생해야 함", async () => {
+      // Given
+      const service = new TestService();
+
+      // When & Then
+      await expect(service.lockedMethod("user-1", 100)).rejects.toThrow(
+        "[@WithUserLock] LockService is not available",
+      );
+    });
+  });
+});
@@ -1,39 +1,36 @@
-import { Connection } from "mongoose";
-import { TransactionContextStorage } from "../transaction/transaction.context";
-import { withTransaction } from "../transaction/transaction.util";
-import { ModuleRef } from "@nestjs/core";
-import { getConnectionToken } from "@nestjs/mongoose";
+import { Inject } from "@nestjs/common";
+import { TransactionManager } from "../transaction/transaction.manager";
+import { TransactionOptions } from "../transaction/transaction.options";
 
-let moduleRef: ModuleRef;
+// 데코레이터가 적용된 클래스에 TransactionManager를 주입할 프로퍼티
+const TRANSACTION_MANAGER = "__transactionManager__";
+const injectedTargets = new WeakSet<object>();
 
-export function setTransactionModuleRef(ref: ModuleRef) {
-  moduleRef = ref;
-}
-
-export function Transactional(): MethodDecorator {
+export function Transactional(options: TransactionOptions = {}): MethodDecorator {
   return function (target: any, propertyName: string, descriptor: PropertyDescriptor) {
     const originalMethod = descriptor.value;
+    const label = `${target.constructor.name}.${String(propertyName)}`;
 
-    descriptor.value = async function (...args: any[]) {
-      if (!moduleRef) {
-        throw new Error("[@Transactional] ModuleRef has not been set");
-      }
-
-      const serviceInstance = this;
-      const storage = moduleRef.get(TransactionContextStorage, { strict: false });
-      const connection = moduleRef.get<Connection>(getConnectionToken(), {
-        strict: false,
-      });
+    // 클래스당 한 번만 프로퍼티 주입을 등록한다
+    if (!injectedTargets.has(target)) {
+      Inject(TransactionManager)(target, TRANSACTION_MANAGER);
+      injectedTargets.add(target);
+    }
 
-      if (!storage || !connection) {
+    descriptor.value = async function (...args: any[]) {
+      const transactionManager: TransactionManager | undefined =
+        this[TRANSACTION_MANAGER];
+      if (!transactionManager) {
         throw new Error(
-          "[@Transactional] Unable to resolve asyncContext or connection from DI",
+          "[@Transactional] TransactionManager is not available. " +
+            "Import TransactionModule.forRoot() and resolve the class through Nest DI",
         );
       }
 
-      return withTransaction(connection, storage, async () =>
-        originalMethod.apply(serviceInstance, args),
-      );
+      return transactionManager.run(async () => originalMethod.apply(this, args), {
+        label,
+        ...options,
+      });
     };
     return descriptor;
   };
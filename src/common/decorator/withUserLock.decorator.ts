@@ -0,0 +1,67 @@
+import { Inject } from "@nestjs/common";
+import { LockOptions, LockService } from "../lock/lock.service";
+
+// 데코레이터가 적용된 클래스에 LockService를 주입할 프로퍼티
+const LOCK_SERVICE = "__lockService__";
+const injectedTargets = new WeakSet<object>();
+
+export const USER_LOCK_KEY_PREFIX = "user:";
+
+// 사용자 ID를 담은 인자의 위치, 또는 호출 인자에서 사용자 ID를 꺼내는 함수
+export type UserIdSource = number | ((...args: any[]) => unknown);
+
+// userIdOf로 찾은 사용자 단위로 여러 인스턴스에 걸쳐 메서드 실행을 직렬화한다
+// @Transactional보다 위에 선언하면 이 메서드가 시작한 트랜잭션이 끝난 뒤에 잠금이 해제된다
+// 단, 바깥 트랜잭션에 참여한 경우(REQUIRED)에는 메서드가 끝날 때 해제되므로 바깥 트랜잭션의
+// 커밋 전에 다른 요청이 잠금을 얻을 수 있다. 이때는 잔액 문서의 쓰기 충돌과 version 조건이 동시 변경을 막는다
+export function WithUserLock(
+  userIdOf: UserIdSource,
+  options: LockOptions = {},
+): MethodDecorator {
+  return function (
+    target: object,
+    propertyName: string | symbol,
+    descriptor: PropertyDescriptor,
+  ) {
+    const originalMethod = descriptor.value as (...args: unknown[]) => Promise<unknown>;
+    const methodName = `${target.constructor.name}.${String(propertyName)}`;
+    if (typeof userIdOf === "number" && !(Number.isInteger(userIdOf) && userIdOf >= 0)) {
+      throw new Error(
+        `[@WithUserLock] ${methodName} has invalid argument index ${userIdOf}`,
+      );
+    }
+    const getUserId: (...args: unknown[]) => unknown =
+      typeof userIdOf === "number" ? (...args) => args[userIdOf] : userIdOf;
+
+    // 클래스당 한 번만 프로퍼티 주입을 등록한다
+    if (!injectedTargets.has(target)) {
+      Inject(LockService)(target, LOCK_SERVICE);
+      injectedTargets.add(target);
+    }
+
+    descriptor.value = async function (
+      this: Record<string, unknown>,
+      ...args: unknown[]
+    ) {
+      const lockService = this[LOCK_SERVICE] as LockService | undefined;
+      if (!lockService) {
+        throw new Error(
+          "[@WithUserLock] LockService is not available. " +
+            "Import LockModule.forRoot() and resolve the class through Nest DI",
+        );
+      }
+
+      // 잠금 키가 "[object Object]" 등으로 뭉개지지 않도록 문자열/숫자 ID만 받는다
+      const userId = getUserId(...args);
+      if ((typeof userId !== "string" && typeof userId !== "number") || userId === "") {
+        throw new Error(`[@WithUserLock] ${methodName} was called without a user id`);
+      }
+      return await lockService.withLock(
+        `${USER_LOCK_KEY_PREFIX}${userId}`,
+        () => originalMethod.apply(this, args) as Promise<unknown>,
+        options,
+      );
+    };
+    return descriptor;
+  };
+}
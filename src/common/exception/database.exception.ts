@@ -0,0 +1,9 @@
+import { InternalServerErrorException } from "@nestjs/common";
+import { ErrorResponseBody } from "./domain.exception";
+
+export class DatabaseException extends InternalServerErrorException {
+  constructor(message: string, details: Record<string, unknown> | null = null) {
+    const body: ErrorResponseBody = { code: "DATABASE_ERROR", message, details };
+    super(body);
+  }
+}
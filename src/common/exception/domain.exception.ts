@@ -0,0 +1,25 @@
+import { HttpStatus } from "@nestjs/common";
+
+// 클라이언트에 그대로 노출되는 에러 응답 형식
+export interface ErrorResponseBody {
+  code: string;
+  message: string;
+  details: Record<string, unknown> | null;
+}
+
+// 도메인 규칙 위반을 나타내는 예외의 기반 클래스
+export abstract class DomainException extends Error {
+  protected constructor(
+    readonly code: string,
+    message: string,
+    readonly status: HttpStatus,
+    readonly details: Record<string, unknown> | null = null,
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+
+  toResponse(): ErrorResponseBody {
+    return { code: this.code, message: this.message, details: this.details };
+  }
+}
@@ -0,0 +1,5 @@
+export { DomainException, ErrorResponseBody } from "./domain.exception";
+export { DatabaseException } from "./database.exception";
+export { InvalidCursorException } from "./invalidCursor.exception";
+export { LockLostException } from "./lockLost.exception";
+export { LockNotAcquiredException } from "./lockNotAcquired.exception";
@@ -0,0 +1,10 @@
+import { HttpStatus } from "@nestjs/common";
+import { DomainException } from "./domain.exception";
+
+export class InvalidCursorException extends DomainException {
+  constructor(cursor: string) {
+    super("INVALID_CURSOR", "Invalid pagination cursor", HttpStatus.BAD_REQUEST, {
+      cursor,
+    });
+  }
+}
@@ -0,0 +1,20 @@
+import { HttpStatus } from "@nestjs/common";
+import { DomainException } from "./domain.exception";
+
+// 임대가 만료된 사이 다른 소유자가 잠금을 얻어 이미 쓴 경우. 작업을 처음부터 다시 시도해야 한다
+export class LockLostException extends DomainException {
+  readonly retryable = true;
+
+  constructor(key: string, fencingToken: number) {
+    super(
+      "LOCK_LOST",
+      "Lock expired before the write, please retry",
+      HttpStatus.CONFLICT,
+      {
+        key,
+        fencingToken,
+        retryable: true,
+      },
+    );
+  }
+}
@@ -0,0 +1,15 @@
+import { HttpStatus } from "@nestjs/common";
+import { DomainException } from "./domain.exception";
+
+// 대기 시간 안에 잠금을 얻지 못한 경우. 잠시 후 다시 시도하면 된다
+export class LockNotAcquiredException extends DomainException {
+  readonly retryable = true;
+
+  constructor(key: string, waitTimeoutMs: number) {
+    super("LOCK_NOT_ACQUIRED", "Resource is locked, please retry", HttpStatus.CONFLICT, {
+      key,
+      waitTimeoutMs,
+      retryable: true,
+    });
+  }
+}
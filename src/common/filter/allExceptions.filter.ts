@@ -0,0 +1,73 @@
+import {
+  ArgumentsHost,
+  Catch,
+  ExceptionFilter,
+  HttpException,
+  HttpStatus,
+  Logger,
+} from "@nestjs/common";
+import { Response } from "express";
+import { DomainException, ErrorResponseBody } from "../exception";
+
+// 모든 예외를 { code, message, details } 형식의 응답으로 변환
+@Catch()
+export class AllExceptionsFilter implements ExceptionFilter {
+  private readonly logger = new Logger(AllExceptionsFilter.name);
+
+  catch(exception: unknown, host: ArgumentsHost): void {
+    const response = host.switchToHttp().getResponse<Response>();
+    const { status, body } = this.toErrorResponse(exception);
+
+    if (status >= 500) {
+      this.logger.error(body.message, exception instanceof Error ? exception.stack : "");
+    }
+    response.status(status).json(body);
+  }
+
+  toErrorResponse(exception: unknown): { status: number; body: ErrorResponseBody } {
+    if (exception instanceof DomainException) {
+      return { status: exception.status, body: exception.toResponse() };
+    }
+
+    if (exception instanceof HttpException) {
+      const status = exception.getStatus();
+      return { status, body: this.fromHttpException(exception, status) };
+    }
+
+    return {
+      status: HttpStatus.INTERNAL_SERVER_ERROR,
+      body: {
+        code: "INTERNAL_SERVER_ERROR",
+        message: "Internal server error",
+        details: null,
+      },
+    };
+  }
+
+  private fromHttpException(exception: HttpException, status: number): ErrorResponseBody {
+    const defaultCode = HttpStatus[status] ?? "HTTP_ERROR";
+    const response = exception.getResponse();
+
+    if (typeof response === "string") {
+      return { code: defaultCode, message: response, details: null };
+    }
+
+    const { code, message, details } = response as Partial<
+      Record<keyof ErrorResponseBody, unknown>
+    >;
+    // ValidationPipe는 메시지를 배열로 돌려준다
+    if (Array.isArray(message)) {
+      return {
+        code: typeof code === "string" ? code : "VALIDATION_FAILED",
+        message: "Validation failed",
+        details: { errors: message },
+      };
+    }
+
+    return {
+      code: typeof code === "string" ? code : defaultCode,
+      message: typeof message === "string" ? message : exception.message,
+      details: (details as Record<string, unknown> | undefined) ?? null,
+    };
+  }
+}
@@ -0,0 +1,112 @@
+import {
+  ArgumentsHost,
+  BadRequestException,
+  HttpStatus,
+  NotFoundException,
+} from "@nestjs/common";
+import { AllExceptionsFilter } from "../allExceptions.filter";
+import { DatabaseException, DomainException } from "../../exception";
+
+class TestDomainException extends DomainException {
+  constructor() {
+    super("TEST_ERROR", "Test domain error", HttpStatus.PAYMENT_REQUIRED, {
+      userId: "user-1",
+    });
+  }
+}
+
+describe("AllExceptionsFilter", () => {
+  let filter: AllExceptionsFilter;
+  let mockResponse: { status: jest.Mock; json: jest.Mock };
+  let mockHost: ArgumentsHost;
+
+  beforeEach(() => {
+    filter = new AllExceptionsFilter();
+    mockResponse = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn().mockReturnThis(),
+    };
+    mockHost = {
+      switchToHttp: () => ({
+        getResponse: () => mockResponse,
+      }),
+    } as unknown as ArgumentsHost;
+  });
+
+  describe("DomainException", () => {
+    it("도메인 예외의 상태 코드와 에러 본문으로 응답해야 함", () => {
+      // When
+      filter.catch(new TestDomainException(), mockHost);
+
+      // Then
+      expect(mockResponse.status).toHaveBeenCalledWith(HttpStatus.PAYMENT_REQUIRED);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        code: "TEST_ERROR",
+        message: "Test domain error",
+        details: { userId: "user-1" },
+      });
+    });
+  });
+
+  describe("HttpException", () => {
+    it("문자열 메시지는 상태 이름을 코드로 사용해야 함", () => {
+      // When
+      filter.catch(new NotFoundException("Resource not found"), mockHost);
+
+      // Then
+      expect(mockResponse.status).toHaveBeenCalledWith(HttpStatus.NOT_FOUND);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        code: "NOT_FOUND",
+        message: "Resource not found",
+        details: null,
+      });
+    });
+
+    it("ValidationPipe 메시지 배열은 details.errors로 변환되어야 함", () => {
+      // Given
+      const exception = new BadRequestException(["userId must be a mongodb id"]);
+
+      // When
+      filter.catch(exception, mockHost);
+
+      // Then
+      expect(mockResponse.status).toHaveBeenCalledWith(HttpStatus.BAD_REQUEST);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        code: "VALIDATION_FAILED",
+        message: "Validation failed",
+        details: { errors: ["userId must be a mongodb id"] },
+      });
+    });
+
+    it("DatabaseException은 같은 에러 본문 형식을 유지해야 함", () => {
+      // When
+      filter.catch(
+        new DatabaseException("Database error in create: E11000", { method: "create" }),
+        mockHost,
+      );
+
+      // Then
+      expect(mockResponse.status).toHaveBeenCalledWith(HttpStatus.INTERNAL_SERVER_ERROR);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        code: "DATABASE_ERROR",
+        message: "Database error in create: E11000",
+        details: { method: "create" },
+      });
+    });
+  });
+
+  describe("알 수 없는 예외", () => {
+    it("내부 메시지를 노출하지 않고 500으로 응답해야 함", () => {
+      // When
+      filter.catch(new Error("secret failure"), mockHost);
+
+      // Then
+      expect(mockResponse.status).toHaveBeenCalledWith(HttpStatus.INTERNAL_SERVER_ERROR);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        code: "INTERNAL_SERVER_ERROR",
+        message: "Internal server error",
+        details: null,
+      });
+    });
+  });
+});
@@ -0,0 +1,19 @@
+import { DynamicModule, Module } from "@nestjs/common";
+import { MongooseModule } from "@nestjs/mongoose";
+import { Lock, LockSchema } from "./schema/lock.schema";
+import { LockRepository } from "./lock.repository";
+import { LockService } from "./lock.service";
+
+// 루트 모듈에서 한 번 등록하면 모든 provider에서 @WithUserLock을 사용할 수 있다
+@Module({})
+export class LockModule {
+  static forRoot(): DynamicModule {
+    return {
+      module: LockModule,
+      global: true,
+      imports: [MongooseModule.forFeature([{ name: Lock.name, schema: LockSchema }])],
+      providers: [LockRepository, LockService],
+      exports: [LockService],
+    };
+  }
+}
@@ -0,0 +1,71 @@
+import { Injectable } from "@nestjs/common";
+import { InjectModel } from "@nestjs/mongoose";
+import { Model, mongo } from "mongoose";
+import { Lock, LockDocument } from "./schema/lock.schema";
+import { HandleAllDbErrors } from "../decorator/DbErrors.decorator";
+import { TransactionContextStorage } from "../transaction/transaction.context";
+import { BaseRepository } from "../repository";
+
+const DUPLICATE_KEY_ERROR = 11000;
+
+// 잠금은 호출자의 트랜잭션과 무관하게 다른 인스턴스에 바로 보여야 하므로 세션을 붙이지 않는다
+@Injectable()
+@HandleAllDbErrors
+export class LockRepository extends BaseRepository<LockDocument> {
+  constructor(
+    @InjectModel(Lock.name)
+    private readonly lockModel: Model<LockDocument>,
+    transactionContextStorage: TransactionContextStorage,
+  ) {
+    super(lockModel, transactionContextStorage);
+  }
+
+  // 비어 있거나 만료된 잠금만 가져오며, 다른 소유자가 잡고 있다면 null을 반환한다
+  async acquireLease(
+    key: string,
+    owner: string,
+    expiresAt: Date,
+    now: Date,
+  ): Promise<Lock | null> {
+    try {
+      return await this.lockModel.findOneAndUpdate(
+        { _id: key, $or: [{ owner: null }, { expiresAt: { $lte: now } }] },
+        { $set: { owner, expiresAt }, $inc: { fencingToken: 1 } },
+        { upsert: true, new: true, lean: true },
+      );
+    } catch (error) {
+      // 잡혀 있는 잠금은 조건에 맞지 않아 같은 _id로 삽입을 시도하게 된다
+      if (error instanceof mongo.MongoServerError && error.code === DUPLICATE_KEY_ERROR) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  // 아직 만료되지 않은 자기 임대만 연장할 수 있다
+  async extendLease(
+    key: string,
+    owner: string,
+    fencingToken: number,
+    expiresAt: Date,
+    now: Date,
+  ): Promise<Lock | null> {
+    return await this.lockModel.findOneAndUpdate(
+      { _id: key, owner, fencingToken, expiresAt: { $gt: now } },
+      { $set: { expiresAt } },
+      { new: true, lean: true },
+    );
+  }
+
+  async releaseLease(key: string, owner: string, fencingToken: number): Promise<boolean> {
+    const result = await this.lockModel.updateOne(
+      { _id: key, owner, fencingToken },
+      { $set: { owner: null, expiresAt: new Date() } },
+    );
+    return result.modifiedCount === 1;
+  }
+
+  async findByKey(key: string): Promise<Lock | null> {
+    return await this.lockModel.findById(key).lean();
+  }
+}
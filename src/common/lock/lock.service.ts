@@ -0,0 +1,147 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { AsyncLocalStorage } from "async_hooks";
+import { randomUUID } from "crypto";
+import { hostname } from "os";
+import { LockRepository } from "./lock.repository";
+import { Lock } from "./schema/lock.schema";
+import { LockNotAcquiredException } from "../exception";
+
+export const DEFAULT_LOCK_TTL_MS = 10_000;
+export const DEFAULT_LOCK_WAIT_TIMEOUT_MS = 5_000;
+export const DEFAULT_LOCK_RETRY_INTERVAL_MS = 50;
+
+export interface LockOptions {
+  // 임대 유지 시간. 작업이 이보다 오래 걸리면 다른 인스턴스가 잠금을 가져갈 수 있다
+  ttlMs?: number;
+  // 잠금을 얻기 위해 기다리는 최대 시간 (0이면 한 번만 시도)
+  waitTimeoutMs?: number;
+  retryIntervalMs?: number;
+}
+
+// 잠금 임대. 보호 대상에 쓸 때 fencingToken을 함께 넘기면 만료된 소유자의 쓰기를 걸러낼 수 있다
+export interface LockLease {
+  key: string;
+  owner: string;
+  fencingToken: number;
+  expiresAt: Date;
+}
+
+@Injectable()
+export class LockService {
+  private readonly logger = new Logger(LockService.name);
+  // 현재 비동기 흐름이 가진 임대. 같은 키를 다시 잠그면 그대로 재사용한다
+  private readonly heldLeases = new AsyncLocalStorage<Map<string, LockLease>>();
+  private readonly instanceId = `${hostname()}:${process.pid}`;
+
+  constructor(private readonly lockRepository: LockRepository) {}
+
+  async tryAcquire(key: string, ttlMs = DEFAULT_LOCK_TTL_MS): Promise<LockLease | null> {
+    const owner = `${this.instanceId}:${randomUUID()}`;
+    const now = new Date();
+    const lock = await this.lockRepository.acquireLease(
+      key,
+      owner,
+      new Date(now.getTime() + ttlMs),
+      now,
+    );
+    return lock ? this.toLease(lock) : null;
+  }
+
+  async acquire(key: string, options: LockOptions = {}): Promise<LockLease> {
+    const {
+      ttlMs = DEFAULT_LOCK_TTL_MS,
+      waitTimeoutMs = DEFAULT_LOCK_WAIT_TIMEOUT_MS,
+      retryIntervalMs = DEFAULT_LOCK_RETRY_INTERVAL_MS,
+    } = options;
+    const deadline = Date.now() + waitTimeoutMs;
+
+    for (;;) {
+      const lease = await this.tryAcquire(key, ttlMs);
+      if (lease) {
+        return lease;
+      }
+      if (Date.now() + retryIntervalMs > deadline) {
+        throw new LockNotAcquiredException(key, waitTimeoutMs);
+      }
+      await new Promise((resolve) => setTimeout(resolve, retryIntervalMs));
+    }
+  }
+
+  // 이미 만료되었거나 다른 소유자에게 넘어간 임대는 연장되지 않는다
+  async extend(lease: LockLease, ttlMs = DEFAULT_LOCK_TTL_MS): Promise<LockLease | null> {
+    const now = new Date();
+    const lock = await this.lockRepository.extendLease(
+      lease.key,
+      lease.owner,
+      lease.fencingToken,
+      new Date(now.getTime() + ttlMs),
+      now,
+    );
+    return lock ? this.toLease(lock) : null;
+  }
+
+  async release(lease: LockLease): Promise<boolean> {
+    return this.lockRepository.releaseLease(lease.key, lease.owner, lease.fencingToken);
+  }
+
+  // 임대가 아직 유효하고 그 뒤로 다른 소유자가 잠금을 얻지 않았는지 확인
+  async isHeld(lease: LockLease): Promise<boolean> {
+    const lock = await this.lockRepository.findByKey(lease.key);
+    return (
+      !!lock &&
+      lock.owner === lease.owner &&
+      lock.fencingToken === lease.fencingToken &&
+      lock.expiresAt.getTime() > Date.now()
+    );
+  }
+
+  getCurrentLease(key: string): LockLease | undefined {
+    return this.heldLeases.getStore()?.get(key);
+  }
+
+  // 잠금을 얻은 뒤 fn을 실행하고, 성공/실패와 관계없이 해제한다
+  async withLock<R>(
+    key: string,
+    fn: (lease: LockLease) => Promise<R>,
+    options: LockOptions = {},
+  ): Promise<R> {
+    const current = this.getCurrentLease(key);
+    if (current) {
+      return fn(current);
+    }
+
+    const lease = await this.acquire(key, options);
+    const leases = new Map(this.heldLeases.getStore());
+    leases.set(key, lease);
+    try {
+      return await this.heldLeases.run(leases, () => fn(lease));
+    } finally {
+      await this.releaseQuietly(lease);
+    }
+  }
+
+  ///// private //////
+
+  // 해제 실패가 작업 결과를 덮지 않도록 기록만 한다. 임대는 TTL이 지나면 풀린다
+  private async releaseQuietly(lease: LockLease): Promise<void> {
+    try {
+      const released = await this.release(lease);
+      if (!released) {
+        this.logger.warn(
+          `Lock "${lease.key}" (token ${lease.fencingToken}) expired before release`,
+        );
+      }
+    } catch (error) {
+      this.logger.error(`Failed to release lock "${lease.key}"`, error);
+    }
+  }
+
+  private toLease(lock: Lock): LockLease {
+    return {
+      key: lock._id,
+      owner: lock.owner!,
+      fencingToken: lock.fencingToken,
+      expiresAt: lock.expiresAt,
+    };
+  }
+}
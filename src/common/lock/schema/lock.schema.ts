@@ -0,0 +1,25 @@
+import { Prop, Schema, SchemaFactory } from "@nestjs/mongoose";
+import { Document } from "mongoose";
+
+export type LockDocument = Lock & Document;
+
+// 해제해도 문서를 지우지 않아야 fencingToken이 키마다 계속 증가한다
+@Schema({ collection: "locks", versionKey: false })
+export class Lock {
+  // 잠금 키 (예: "user:<userId>")
+  @Prop({ type: String, required: true })
+  _id: string;
+
+  // 현재 임대(lease)를 가진 소유자. 해제되면 null
+  @Prop({ type: String, default: null })
+  owner: string | null;
+
+  // 잠금을 얻을 때마다 1씩 증가하는 펜싱 토큰
+  @Prop({ required: true, default: 0 })
+  fencingToken: number;
+
+  @Prop({ type: Date, required: true })
+  expiresAt: Date;
+}
+
+export const LockSchema = SchemaFactory.createForClass(Lock);
@@ -0,0 +1,203 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { getConnectionToken, MongooseModule } from "@nestjs/mongoose";
+import { MongoMemoryReplSet } from "mongodb-memory-server";
+import { Connection } from "mongoose";
+import { LockModule } from "../lock.module";
+import { LockService } from "../lock.service";
+import { TransactionModule } from "../../transaction/transaction.module";
+import { TransactionManager } from "../../transaction/transaction.manager";
+import { LockNotAcquiredException } from "../../exception";
+
+describe(LockService.name, () => {
+  let mongod: MongoMemoryReplSet;
+  let mongoConnection: Connection;
+  let lockService: LockService;
+  let transactionManager: TransactionManager;
+
+  beforeAll(async () => {
+    mongod = await MongoMemoryReplSet.create({
+      replSet: {
+        name: "testset",
+        count: 1,
+        storageEngine: "wiredTiger",
+      },
+    });
+
+    const testModule: TestingModule = await Test.createTestingModule({
+      imports: [
+        MongooseModule.forRoot(mongod.getUri()),
+        TransactionModule.forRoot(),
+        LockModule.forRoot(),
+      ],
+    }).compile();
+
+    mongoConnection = testModule.get<Connection>(getConnectionToken());
+    lockService = testModule.get<LockService>(LockService);
+    transactionManager = testModule.get<TransactionManager>(TransactionManager);
+  });
+
+  afterEach(async () => {
+    await mongoConnection.dropDatabase();
+  });
+
+  afterAll(async () => {
+    await mongoConnection.close();
+    await mongod.stop();
+  });
+
+  describe("tryAcquire", () => {
+    test("should acquire a free lock with the first fencing token", async () => {
+      // When
+      const lease = await lockService.tryAcquire("user:1");
+
+      // Then
+      expect(lease).not.toBeNull();
+      expect(lease!.key).toBe("user:1");
+      expect(lease!.fencingToken).toBe(1);
+      expect(await lockService.isHeld(lease!)).toBe(true);
+    });
+
+    test("should not acquire a lock held by another owner", async () => {
+      // Given
+      await lockService.tryAcquire("user:1");
+
+      // When
+      const lease = await lockService.tryAcquire("user:1");
+
+      // Then
+      expect(lease).toBeNull();
+    });
+
+    test("should take over an expired lease with a greater fencing token", async () => {
+      // Given
+      const expired = await lockService.tryAcquire("user:1", 50);
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      // When
+      const lease = await lockService.tryAcquire("user:1");
+
+      // Then
+      expect(lease!.fencingToken).toBe(expired!.fencingToken + 1);
+      expect(await lockService.isHeld(expired!)).toBe(false);
+      expect(await lockService.release(expired!)).toBe(false);
+      expect(await lockService.isHeld(lease!)).toBe(true);
+    });
+
+    test("should keep fencing tokens increasing after release", async () => {
+      // Given
+      const first = await lockService.tryAcquire("user:1");
+      await lockService.release(first!);
+
+      // When
+      const second = await lockService.tryAcquire("user:1");
+
+      // Then
+      expect(second!.fencingToken).toBe(first!.fencingToken + 1);
+    });
+
+    test("should not join the caller's transaction", async () => {
+      // When : 트랜잭션이 롤백되어도 잠금은 남아 있어야 한다
+      const run = transactionManager.run(async () => {
+        await lockService.tryAcquire("user:1");
+        throw new Error("rollback");
+      });
+
+      // Then
+      await expect(run).rejects.toThrow("rollback");
+      expect(await lockService.tryAcquire("user:1")).toBeNull();
+    });
+  });
+
+  describe("acquire", () => {
+    test("should wait until the lock is released", async () => {
+      // Given
+      const held = await lockService.tryAcquire("user:1");
+      setTimeout(() => void lockService.release(held!), 100);
+
+      // When
+      const lease = await lockService.acquire("user:1", { waitTimeoutMs: 2000 });
+
+      // Then
+      expect(lease.fencingToken).toBe(held!.fencingToken + 1);
+    });
+
+    test("should throw LockNotAcquiredException after the wait timeout", async () => {
+      // Given
+      await lockService.tryAcquire("user:1");
+
+      // When & Then
+      await expect(
+        lockService.acquire("user:1", { waitTimeoutMs: 100, retryIntervalMs: 20 }),
+      ).rejects.toBeInstanceOf(LockNotAcquiredException);
+    });
+  });
+
+  describe("extend", () => {
+    test("should extend a held lease", async () => {
+      // Given
+      const lease = await lockService.tryAcquire("user:1", 100);
+
+      // When
+      const extended = await lockService.extend(lease!, 10_000);
+
+      // Then
+      expect(extended!.fencingToken).toBe(lease!.fencingToken);
+      expect(extended!.expiresAt.getTime()).toBeGreaterThan(lease!.expiresAt.getTime());
+    });
+
+    test("should not extend an expired lease", async () => {
+      // Given
+      const lease = await lockService.tryAcquire("user:1", 50);
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      // When & Then
+      expect(await lockService.extend(lease!)).toBeNull();
+    });
+  });
+
+  describe("withLock", () => {
+    test("should serialize concurrent callers on the same key", async () => {
+      // Given
+      const events: string[] = [];
+      const task = (name: string) =>
+        lockService.withLock("user:1", async () => {
+          events.push(`${name}:start`);
+          await new Promise((resolve) => setTimeout(resolve, 50));
+          events.push(`${name}:end`);
+        });
+
+      // When
+      await Promise.all([task("a"), task("b")]);
+
+      // Then : 한 작업이 끝난 뒤에 다음 작업이 시작되어야 한다
+      expect(events[1]).toBe(`${events[0].split(":")[0]}:end`);
+      expect(events).toHaveLength(4);
+    });
+
+    test("should release the lock when the callback throws", async () => {
+      // When
+      await expect(
+        lockService.withLock("user:1", () =>
+          Promise.reject(new Error("callback failed")),
+        ),
+      ).rejects.toThrow("callback failed");
+
+      // Then
+      expect(await lockService.tryAcquire("user:1")).not.toBeNull();
+    });
+
+    test("should reuse the held lease for the same key", async () => {
+      // When
+      const [outer, inner] = await lockService.withLock("user:1", async (lease) => {
+        const nested = await lockService.withLock("user:1", (l) => Promise.resolve(l), {
+          waitTimeoutMs: 0,
+        });
+        return [lease, nested];
+      });
+
+      // Then
+      expect(inner).toBe(outer);
+      expect(lockService.getCurrentLease("user:1")).toBeUndefined();
+    });
+  });
+});
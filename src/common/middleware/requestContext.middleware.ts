@@ -0,0 +1,31 @@
+import { Injectable, NestMiddleware } from "@nestjs/common";
+import { NextFunction, Request, Response } from "express";
+import { randomUUID } from "crypto";
+import {
+  RequestContext,
+  TransactionContextStorage,
+} from "../transaction/transaction.context";
+
+export const REQUEST_ID_HEADER = "x-request-id";
+export const USER_ID_HEADER = "x-user-id";
+export const TENANT_ID_HEADER = "x-tenant-id";
+
+// 요청 헤더로 RequestContext를 만들고 이후 처리 전체를 그 컨텍스트 안에서 실행
+@Injectable()
+export class RequestContextMiddleware implements NestMiddleware {
+  constructor(private readonly transactionContextStorage: TransactionContextStorage) {}
+
+  use(req: Request, res: Response, next: NextFunction): void {
+    // Accept-Language가 없으면 "*"가 반환된다
+    const [locale] = req.acceptsLanguages();
+    const context: RequestContext = {
+      requestId: req.header(REQUEST_ID_HEADER) ?? randomUUID(),
+      userId: req.header(USER_ID_HEADER),
+      tenantId: req.header(TENANT_ID_HEADER),
+      locale: locale === "*" ? undefined : locale,
+    };
+
+    res.setHeader(REQUEST_ID_HEADER, context.requestId);
+    this.transactionContextStorage.runWithRequestContext(context, next);
+  }
+}
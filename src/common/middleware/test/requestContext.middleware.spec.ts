@@ -0,0 +1,136 @@
+import {
+  Controller,
+  Get,
+  INestApplication,
+  Injectable,
+  MiddlewareConsumer,
+  Module,
+  NestModule,
+} from "@nestjs/common";
+import { Test, TestingModule } from "@nestjs/testing";
+import { getConnectionToken } from "@nestjs/mongoose";
+import { Connection } from "mongoose";
+import * as request from "supertest";
+import { App } from "supertest/types";
+import { RequestContextMiddleware } from "../requestContext.middleware";
+import {
+  RequestContext,
+  TransactionContextStorage,
+} from "../../transaction/transaction.context";
+import { TransactionModule } from "../../transaction/transaction.module";
+import { Transactional } from "../../decorator/transactional.decorator";
+
+@Injectable()
+class ContextService {
+  constructor(private readonly transactionContextStorage: TransactionContextStorage) {}
+
+  @Transactional()
+  readInTransaction(): Promise<RequestContext | undefined> {
+    return Promise.resolve(this.transactionContextStorage.getRequestContext());
+  }
+}
+
+@Controller("context")
+class ContextController {
+  constructor(
+    private readonly contextService: ContextService,
+    private readonly transactionContextStorage: TransactionContextStorage,
+  ) {}
+
+  @Get()
+  getContext() {
+    return { context: this.transactionContextStorage.getRequestContext() ?? null };
+  }
+
+  @Get("transaction")
+  async getContextInTransaction() {
+    return { context: (await this.contextService.readInTransaction()) ?? null };
+  }
+}
+
+describe(RequestContextMiddleware.name, () => {
+  let app: INestApplication<App>;
+
+  beforeAll(async () => {
+    const mockSession = {
+      startTransaction: jest.fn(),
+      commitTransaction: jest.fn().mockResolvedValue(undefined),
+      abortTransaction: jest.fn().mockResolvedValue(undefined),
+      endSession: jest.fn().mockResolvedValue(undefined),
+      inTransaction: jest.fn().mockReturnValue(true),
+    };
+
+    @Module({
+      imports: [TransactionModule.forRoot()],
+      controllers: [ContextController],
+      providers: [
+        ContextService,
+        {
+          provide: getConnectionToken(),
+          useValue: {
+            startSession: jest.fn().mockResolvedValue(mockSession),
+          } as unknown as Connection,
+        },
+      ],
+    })
+    class TestAppModule implements NestModule {
+      configure(consumer: MiddlewareConsumer) {
+        consumer.apply(RequestContextMiddleware).forRoutes("{*splat}");
+      }
+    }
+
+    const testModule: TestingModule = await Test.createTestingModule({
+      imports: [TestAppModule],
+    }).compile();
+
+    app = testModule.createNestApplication();
+    await app.init();
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  test("should populate the request context from headers", async () => {
+    // When
+    const response = await request(app.getHttpServer())
+      .get("/context")
+      .set("x-request-id", "req-1")
+      .set("x-user-id", "user-1")
+      .set("x-tenant-id", "tenant-1")
+      .set("accept-language", "ko-KR,ko;q=0.9");
+
+    // Then
+    expect(response.body).toEqual({
+      context: {
+        requestId: "req-1",
+        userId: "user-1",
+        tenantId: "tenant-1",
+        locale: "ko-KR",
+      },
+    });
+    expect(response.headers["x-request-id"]).toBe("req-1");
+  });
+
+  test("should generate a request id when the header is missing", async () => {
+    // When
+    const response = await request(app.getHttpServer()).get("/context");
+
+    // Then
+    const body = response.body as { context: RequestContext };
+    expect(body.context.requestId).toEqual(expect.any(String));
+    expect(body.context.locale).toBeUndefined();
+    expect(response.headers["x-request-id"]).toBe(body.context.requestId);
+  });
+
+  test("should keep the request context inside a transaction", async () => {
+    // When
+    const response = await request(app.getHttpServer())
+      .get("/context/transaction")
+      .set("x-request-id", "req-2");
+
+    // Then
+    const body = response.body as { context: RequestContext };
+    expect(body.context.requestId).toBe("req-2");
+  });
+});
@@ -7,21 +7,160 @@ import {
   DeleteResult,
   UpdateResult,
   PipelineStage,
+  PopulateOptions,
+  ProjectionType,
+  SortOrder,
+  mongo,
+  AnyBulkWriteOperation,
+  Error as MongooseError,
 } from "mongoose";
-import { TransactionContextStorage } from "../transaction/transaction.context";
+import {
+  RequestContext,
+  TransactionContextStorage,
+} from "../transaction/transaction.context";
+import { ReadOnlyTransactionError } from "../transaction/transaction.errors";
+import { InvalidCursorException } from "../exception";
+
+// 커서 기반 페이지네이션 결과
+export interface CursorPage<R> {
+  data: R[];
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+// 키셋(keyset) 페이지네이션 옵션. _id는 항상 마지막 정렬 키로 추가된다
+export interface CursorOptions {
+  // 이전 페이지의 nextCursor
+  after?: string;
+  limit?: number;
+  sort?: Record<string, 1 | -1>;
+}
+
+const DEFAULT_CURSOR_LIMIT = 20;
+
+// 조회 메서드(findById, findOne, find)가 공통으로 받는 옵션
+export interface FindOptions<T> {
+  projection?: ProjectionType<T>;
+  // true이면 Document 대신 일반 객체를 반환한다
+  lean?: boolean;
+  populate?: string | PopulateOptions | (string | PopulateOptions)[];
+  sort?: Record<string, SortOrder>;
+  limit?: number;
+  skip?: number;
+  collation?: mongo.CollationOptions;
+}
+
+export interface StreamOptions<T> extends FindOptions<T> {
+  // 한 번에 서버에서 가져오는 문서 수
+  batchSize?: number;
+}
+
+export interface AggregateStreamOptions {
+  batchSize?: number;
+  allowDiskUse?: boolean;
+}
+
+export type LeanFindOptions<T> = FindOptions<T> & { lean: true };
+export type HydratedFindOptions<T> = FindOptions<T> & { lean?: false };
+
+// lean 조회 결과. Document의 메서드와 내부 상태 없이 스키마 필드와 _id만 가진다
+export type LeanDocument<T> = Omit<T, Exclude<keyof Document, "_id">>;
+
+export interface RepositoryOptions {
+  // true이면 delete* 메서드가 문서를 지우지 않고 deletedAt/deletedBy를 기록한다
+  softDelete?: boolean;
+}
+
+// 소프트 삭제를 사용하는 스키마가 가져야 할 필드
+export interface SoftDeletable {
+  deletedAt?: Date | null;
+  deletedBy?: string | null;
+}
+
+export interface BulkOptions {
+  // 한 번의 bulkWrite 호출로 보내는 작업 수
+  chunkSize?: number;
+  // true이면 첫 실패에서 멈추고, false이면 실패한 작업을 건너뛰고 계속 실행한다
+  ordered?: boolean;
+}
+
+export interface UpsertItem<T> {
+  filter: FilterQuery<T>;
+  update: UpdateQuery<T>;
+}
+
+export interface BulkItemResult {
+  // 전달한 작업 배열에서의 위치
+  index: number;
+  ok: boolean;
+  // 삽입되거나 upsert로 생성된 문서의 _id
+  id?: unknown;
+  error?: { message: string; code?: number };
+}
+
+export interface BulkWriteReport {
+  acknowledged: boolean;
+  total: number;
+  succeeded: number;
+  failed: number;
+  insertedCount: number;
+  matchedCount: number;
+  modifiedCount: number;
+  deletedCount: number;
+  upsertedCount: number;
+  items: BulkItemResult[];
+}
+
+const DEFAULT_BULK_CHUNK_SIZE = 1000;
+const DEFAULT_STREAM_BATCH_SIZE = 100;
+
+// 작업 단위 안에서 아직 반영되지 않은 다건 쓰기의 잠정 결과
+const PENDING_UPDATE_RESULT: UpdateResult = {
+  acknowledged: false,
+  matchedCount: 0,
+  modifiedCount: 0,
+  upsertedCount: 0,
+  upsertedId: null,
+};
+const PENDING_DELETE_RESULT: DeleteResult = { acknowledged: false, deletedCount: 0 };
 
 export abstract class BaseRepository<T extends Document> {
+  // withDeleted()로 만든 뷰에서만 true
+  private readonly includeDeleted: boolean = false;
+
   constructor(
     protected readonly model: Model<T>,
     protected readonly transactionContextStorage: TransactionContextStorage,
+    protected readonly repositoryOptions: RepositoryOptions = {},
   ) {}
 
+  // 소프트 삭제된 문서까지 조회/수정하는 같은 저장소의 뷰
+  withDeleted(): this {
+    return Object.create(this, { includeDeleted: { value: true } }) as this;
+  }
+
   protected attachSession(options?: Record<string, any>): Record<string, any> {
     const session = this.transactionContextStorage.getSession();
     const baseOptions = options || {};
     return session ? { ...baseOptions, session } : baseOptions;
   }
 
+  protected getRequestContext(): RequestContext | undefined {
+    return this.transactionContextStorage.getRequestContext();
+  }
+
+  // 모델을 직접 사용하는 쓰기 메서드는 attachSession 대신 이 메서드를 사용한다
+  protected attachWriteSession(options?: Record<string, any>): Record<string, any> {
+    this.assertWritable();
+    return this.attachSession(options);
+  }
+
+  protected assertWritable(): void {
+    if (this.transactionContextStorage.isReadOnly()) {
+      throw new ReadOnlyTransactionError(this.model.modelName);
+    }
+  }
+
   protected applySessionToQuery<Q>(query: Q): Q {
     const session = this.transactionContextStorage.getSession();
     if (!session || !query) return query;
@@ -32,26 +171,90 @@ export abstract class BaseRepository<T extends Document> {
     return query;
   }
 
+  protected applyFindOptions<Q extends Query<unknown, unknown>>(
+    query: Q,
+    options: FindOptions<T> = {},
+  ): Q {
+    const { projection, lean, populate, sort, limit, skip, collation } = options;
+    if (projection) query.select(projection);
+    if (sort) query.sort(sort);
+    if (skip !== undefined) query.skip(skip);
+    if (limit !== undefined) query.limit(limit);
+    if (collation) query.collation(collation);
+    if (populate) query.populate(Array.isArray(populate) ? populate : [populate]);
+    if (lean) query.lean();
+    return this.applySessionToQuery(query);
+  }
+
+  // 소프트 삭제를 사용하면 삭제된 문서를 제외한다. deletedAt 조건을 직접 준 경우는 그대로 둔다
+  protected applySoftDeleteFilter(filter: FilterQuery<T> = {}): FilterQuery<T> {
+    if (
+      !this.repositoryOptions.softDelete ||
+      this.includeDeleted ||
+      "deletedAt" in filter
+    ) {
+      return filter;
+    }
+    return { ...filter, deletedAt: null };
+  }
+
+  // 작업 단위(runUnitOfWork) 안에서는 실행을 미루고 잠정 결과를 반환한다
+  protected async write<R>(operation: () => Promise<R>, provisional: R): Promise<R> {
+    this.assertWritable();
+    if (this.transactionContextStorage.deferWrite(operation)) {
+      return provisional;
+    }
+    return await operation();
+  }
+
   // 공통 CRUD 메서드들
   async create(doc: Partial<T>, options?: object): Promise<T> {
-    const attachedOptions = this.attachSession(options);
     const newDoc = new this.model(doc);
-    return await newDoc.save(attachedOptions);
+    // 버퍼링되는 경우에도 검증 오류는 즉시 드러나도록 한다
+    await newDoc.validate();
+    return await this.write(() => newDoc.save(this.attachSession(options)), newDoc);
   }
 
-  async findById(id: string, options?: object): Promise<T | null> {
-    const query = this.model.findById(id);
-    return await this.applySessionToQuery(query).exec();
+  findById(id: string, options: LeanFindOptions<T>): Promise<LeanDocument<T> | null>;
+  findById(id: string, options?: HydratedFindOptions<T>): Promise<T | null>;
+  findById(id: string, options?: FindOptions<T>): Promise<T | LeanDocument<T> | null>;
+  async findById(
+    id: string,
+    options?: FindOptions<T>,
+  ): Promise<T | LeanDocument<T> | null> {
+    const query = this.model.findOne(this.applySoftDeleteFilter({ _id: id }));
+    return await this.applyFindOptions(query, options).exec();
   }
 
-  async findOne(filter: FilterQuery<T>, options?: object): Promise<T | null> {
-    const query = this.model.findOne(filter);
-    return await this.applySessionToQuery(query).exec();
+  findOne(
+    filter: FilterQuery<T>,
+    options: LeanFindOptions<T>,
+  ): Promise<LeanDocument<T> | null>;
+  findOne(filter: FilterQuery<T>, options?: HydratedFindOptions<T>): Promise<T | null>;
+  findOne(
+    filter: FilterQuery<T>,
+    options?: FindOptions<T>,
+  ): Promise<T | LeanDocument<T> | null>;
+  async findOne(
+    filter: FilterQuery<T>,
+    options?: FindOptions<T>,
+  ): Promise<T | LeanDocument<T> | null> {
+    const query = this.model.findOne(this.applySoftDeleteFilter(filter));
+    return await this.applyFindOptions(query, options).exec();
   }
 
-  async find(filter: FilterQuery<T> = {}, options?: object): Promise<T[]> {
-    const query = this.model.find(filter);
-    return await this.applySessionToQuery(query).exec();
+  find(filter: FilterQuery<T>, options: LeanFindOptions<T>): Promise<LeanDocument<T>[]>;
+  find(filter?: FilterQuery<T>, options?: HydratedFindOptions<T>): Promise<T[]>;
+  find(
+    filter?: FilterQuery<T>,
+    options?: FindOptions<T>,
+  ): Promise<(T | LeanDocument<T>)[]>;
+  async find(
+    filter: FilterQuery<T> = {},
+    options?: FindOptions<T>,
+  ): Promise<(T | LeanDocument<T>)[]> {
+    const query = this.model.find(this.applySoftDeleteFilter(filter));
+    return await this.applyFindOptions(query, options).exec();
   }
 
   async aggregate<R = Record<string, unknown>>(
@@ -59,35 +262,115 @@ export abstract class BaseRepository<T extends Document> {
     options?: object,
   ): Promise<R[]> {
     const attachedOptions = this.attachSession(options);
-    return await this.model.aggregate<R>(pipeline, attachedOptions).exec();
+    return await this.model
+      .aggregate<R>(this.applySoftDeleteStage(pipeline), attachedOptions)
+      .exec();
+  }
+
+  // 커서로 한 batch씩 가져오므로 소비하는 속도만큼만 읽는다 (for await 또는 Readable.from)
+  // 세션은 호출 시점에 붙으므로, 트랜잭션 안에서 만든 스트림은 트랜잭션이 끝나기 전에 소비해야 한다
+  stream(
+    filter: FilterQuery<T>,
+    options: StreamOptions<T> & { lean: true },
+  ): AsyncIterable<LeanDocument<T>>;
+  stream(
+    filter?: FilterQuery<T>,
+    options?: StreamOptions<T> & { lean?: false },
+  ): AsyncIterable<T>;
+  stream(
+    filter?: FilterQuery<T>,
+    options?: StreamOptions<T>,
+  ): AsyncIterable<T | LeanDocument<T>>;
+  stream(
+    filter: FilterQuery<T> = {},
+    options: StreamOptions<T> = {},
+  ): AsyncIterable<T | LeanDocument<T>> {
+    const { batchSize = DEFAULT_STREAM_BATCH_SIZE, ...findOptions } = options;
+    const query = this.applyFindOptions(
+      this.model.find(this.applySoftDeleteFilter(filter)),
+      findOptions,
+    );
+    return this.iterateCursor(() => query.cursor({ batchSize }));
+  }
+
+  aggregateStream<R = Record<string, unknown>>(
+    pipeline: PipelineStage[],
+    options: AggregateStreamOptions = {},
+  ): AsyncIterable<R> {
+    const { batchSize = DEFAULT_STREAM_BATCH_SIZE, allowDiskUse } = options;
+    const aggregate = this.model.aggregate<R>(
+      this.applySoftDeleteStage(pipeline),
+      this.attachSession(allowDiskUse === undefined ? {} : { allowDiskUse }),
+    );
+    return this.iterateCursor(() => aggregate.cursor<R>({ batchSize }));
   }
 
   async count(filter: FilterQuery<T>, options?: object): Promise<number> {
     const attachedOptions = this.attachSession(options);
-    return await this.model.countDocuments(filter, attachedOptions).exec();
+    return await this.model
+      .countDocuments(this.applySoftDeleteFilter(filter), attachedOptions)
+      .exec();
+  }
+
+  // 정렬 키와 _id 값을 커서에 담아 skip이나 countDocuments 없이 다음 페이지를 조회한다
+  // 정렬 키는 모든 문서에 값이 있어야 한다 (null은 범위 비교에서 제외된다)
+  async findWithCursor<R = LeanDocument<T>>(
+    filter: FilterQuery<T>,
+    options: CursorOptions = {},
+  ): Promise<CursorPage<R>> {
+    const { after, limit = DEFAULT_CURSOR_LIMIT } = options;
+    const sort = this.toCursorSort(options.sort);
+    const conditions: FilterQuery<T>[] = [this.applySoftDeleteFilter(filter)];
+    if (after) {
+      conditions.push(this.afterCursorFilter(sort, this.decodeCursor(after, sort)));
+    }
+
+    const query = this.model
+      .find({ $and: conditions } as FilterQuery<T>)
+      .sort(sort)
+      .limit(limit + 1);
+    const docs = await this.applySessionToQuery(query).lean<R[]>();
+
+    const hasMore = docs.length > limit;
+    const data = hasMore ? docs.slice(0, limit) : docs;
+    const last = data[data.length - 1];
+
+    return {
+      data,
+      nextCursor: hasMore && last ? this.encodeCursor(sort, last) : null,
+      hasMore,
+    };
   }
 
+  // 큰 컬렉션에서는 skip과 전체 카운트가 느려지므로 findWithCursor를 사용한다
   async findWithPagination(
     filter: FilterQuery<T>,
     page: number,
     limit: number,
     sort: Record<string, 1 | -1> = { createdAt: -1 },
-  ): Promise<{ data: any[]; total: number }> {
+  ): Promise<{ data: LeanDocument<T>[]; total: number }> {
     const skip = (page - 1) * limit;
+    filter = this.applySoftDeleteFilter(filter);
 
     const findQuery = this.model.find(filter).sort(sort).skip(skip).limit(limit);
     const countQuery = this.model.countDocuments(filter);
 
     const [data, total] = await Promise.all([
-      this.applySessionToQuery(findQuery).lean(),
+      this.applySessionToQuery(findQuery).lean<LeanDocument<T>[]>(),
       this.applySessionToQuery(countQuery).exec(),
     ]);
     return { data, total };
   }
 
   async updateById(id: string, update: Partial<T>, options?: object): Promise<T | null> {
-    const attachedOptions = this.attachSession({ new: true, lean: true, ...options });
-    return await this.model.findByIdAndUpdate(id, update, attachedOptions);
+    return await this.write(async () => {
+      const attachedOptions = this.attachSession({ new: true, lean: true, ...options });
+      return await this.model.findOneAndUpdate(
+        this.applySoftDeleteFilter({ _id: id }),
+        update,
+        attachedOptions,
+      );
+    }, null);
   }
 
   async updateOne(
@@ -95,8 +378,14 @@ export abstract class BaseRepository<T extends Document> {
     update: UpdateQuery<T>,
     options?: object,
   ): Promise<T | null> {
-    const attachedOptions = this.attachSession({ new: true, lean: true, ...options });
-    return await this.model.findOneAndUpdate(filter, update, attachedOptions);
+    return await this.write(async () => {
+      const attachedOptions = this.attachSession({ new: true, lean: true, ...options });
+      return await this.model.findOneAndUpdate(
+        this.applySoftDeleteFilter(filter),
+        update,
+        attachedOptions,
+      );
+    }, null);
   }
 
   async updateMany(
@@ -104,22 +393,375 @@ export abstract class BaseRepository<T extends Document> {
     update: UpdateQuery<T>,
     options?: object,
   ): Promise<UpdateResult> {
-    const attachedOptions = this.attachSession(options);
-    return await this.model.updateMany(filter, update, attachedOptions);
+    return await this.write(
+      async () =>
+        await this.model.updateMany(
+          this.applySoftDeleteFilter(filter),
+          update,
+          this.attachSession(options),
+        ),
+      PENDING_UPDATE_RESULT,
+    );
   }
 
   async deleteById(id: string, options?: object): Promise<T | null> {
-    const attachedOptions = this.attachSession(options);
-    return await this.model.findByIdAndDelete(id, attachedOptions);
+    if (this.repositoryOptions.softDelete) {
+      return await this.softDeleteOne({ _id: id }, options);
+    }
+    return await this.write(
+      async () => await this.model.findByIdAndDelete(id, this.attachSession(options)),
+      null,
+    );
   }
 
   async deleteOne(filter: FilterQuery<T>, options?: object): Promise<T | null> {
-    const attachedOptions = this.attachSession(options);
-    return await this.model.findOneAndDelete(filter, attachedOptions);
+    if (this.repositoryOptions.softDelete) {
+      return await this.softDeleteOne(filter, options);
+    }
+    return await this.write(
+      async () => await this.model.findOneAndDelete(filter, this.attachSession(options)),
+      null,
+    );
   }
 
   async deleteMany(filter: FilterQuery<T>, options?: object): Promise<DeleteResult> {
-    const attachedOptions = this.attachSession(options);
-    return await this.model.deleteMany(filter, attachedOptions);
+    if (this.repositoryOptions.softDelete) {
+      const deletion = this.deletionMark();
+      return await this.write(async () => {
+        const result = await this.model.updateMany(
+          this.applySoftDeleteFilter(filter),
+          { $set: deletion },
+          this.attachSession(options),
+        );
+        return { acknowledged: result.acknowledged, deletedCount: result.modifiedCount };
+      }, PENDING_DELETE_RESULT);
+    }
+    return await this.write(
+      async () => await this.model.deleteMany(filter, this.attachSession(options)),
+      PENDING_DELETE_RESULT,
+    );
+  }
+
+  // 작업을 chunkSize 단위로 나눠 보내고 작업별 성공/실패를 보고한다
+  // 원시 작업을 그대로 보내므로 소프트 삭제 필터는 적용되지 않는다
+  // 트랜잭션 안에서는 쓰기 오류가 트랜잭션을 중단시키므로 ordered: true로 사용한다
+  async bulkWrite(
+    operations: AnyBulkWriteOperation[],
+    options: BulkOptions = {},
+  ): Promise<BulkWriteReport> {
+    const { chunkSize = DEFAULT_BULK_CHUNK_SIZE, ordered = true } = options;
+    return await this.write(
+      async () => {
+        const report = this.createBulkReport(operations.length, true);
+        for (let start = 0; start < operations.length; start += chunkSize) {
+          const chunk = operations.slice(start, start + chunkSize);
+          const stopped = await this.runBulkChunk(chunk, start, ordered, report);
+          if (stopped) {
+            break;
+          }
+        }
+        // ordered에서 실패 뒤에 남은 작업은 실행되지 않은 것으로 보고한다
+        for (let index = report.items.length; index < operations.length; index++) {
+          this.recordBulkFailure(report, index, {
+            message: "Not executed because an earlier operation failed",
+          });
+        }
+        return report;
+      },
+      this.createBulkReport(operations.length, false),
+    );
+  }
+
+  async insertMany(docs: Partial<T>[], options?: BulkOptions): Promise<BulkWriteReport> {
+    return await this.bulkWrite(
+      docs.map((document) => ({ insertOne: { document } }) as AnyBulkWriteOperation),
+      options,
+    );
+  }
+
+  async upsertMany(
+    items: UpsertItem<T>[],
+    options?: BulkOptions,
+  ): Promise<BulkWriteReport> {
+    return await this.bulkWrite(
+      items.map(
+        ({ filter, update }) =>
+          ({
+            updateOne: {
+              filter: this.applySoftDeleteFilter(filter),
+              update,
+              upsert: true,
+            },
+          }) as AnyBulkWriteOperation,
+      ),
+      options,
+    );
+  }
+
+  // 소프트 삭제된 문서 중 filter에 맞는 문서를 되살린다
+  async restore(filter: FilterQuery<T>, options?: object): Promise<UpdateResult> {
+    if (!this.repositoryOptions.softDelete) {
+      throw new Error(`Soft delete is not enabled for "${this.model.modelName}"`);
+    }
+    return await this.write(
+      async () =>
+        await this.model.updateMany(
+          { ...filter, deletedAt: { $ne: null } },
+          { $set: { deletedAt: null, deletedBy: null } },
+          this.attachSession(options),
+        ),
+      PENDING_UPDATE_RESULT,
+    );
+  }
+
+  ///// private //////
+
+  private applySoftDeleteStage(pipeline: PipelineStage[]): PipelineStage[] {
+    const match = this.applySoftDeleteFilter();
+    return Object.keys(match).length ? [{ $match: match }, ...pipeline] : pipeline;
+  }
+
+  // 커서는 처음 읽을 때 열고, 끝까지 읽거나 중간에 멈추면(break/throw) 닫는다
+  private async *iterateCursor<R>(
+    openCursor: () => AsyncIterable<R> & { close(): Promise<unknown> },
+  ): AsyncGenerator<R> {
+    const cursor = openCursor();
+    try {
+      for await (const doc of cursor) {
+        yield doc;
+      }
+    } finally {
+      await cursor.close();
+    }
+  }
+
+  // 실패한 작업 위치를 정확히 알 수 있도록 항상 ordered로 보내고, 필요하면 실패 다음부터 이어서 보낸다
+  // 반환값이 true이면 ordered 옵션에 따라 실행을 멈춘 것이다
+  private async runBulkChunk(
+    chunk: AnyBulkWriteOperation[],
+    offset: number,
+    ordered: boolean,
+    report: BulkWriteReport,
+  ): Promise<boolean> {
+    let position = 0;
+    while (position < chunk.length) {
+      const batch = chunk.slice(position);
+      try {
+        const result = await this.model.bulkWrite<any>(
+          batch,
+          this.attachSession({ ordered: true }),
+        );
+        this.recordBulkResult(report, result, offset + position, batch.length);
+        return false;
+      } catch (error) {
+        // 서버로 보내기 전(캐스팅/검증)에 실패하면 어느 작업인지 알 수 없으므로 하나씩 보낸다
+        if (this.isBulkCastError(error)) {
+          return await this.runBulkOneByOne(batch, offset + position, ordered, report);
+        }
+        // 네트워크, 쓰기 충돌, write concern 오류 등은 작업별 실패가 아니므로 그대로 던진다
+        const writeError = this.firstWriteError(error);
+        if (!writeError) {
+          throw error;
+        }
+
+        const bulkError = error as mongo.MongoBulkWriteError;
+        this.recordBulkResult(
+          report,
+          bulkError.result,
+          offset + position,
+          writeError.index,
+        );
+        this.recordBulkFailure(report, offset + position + writeError.index, {
+          message: writeError.errmsg ?? bulkError.message,
+          code: writeError.code,
+        });
+        if (ordered) {
+          return true;
+        }
+        position += writeError.index + 1;
+      }
+    }
+    return false;
+  }
+
+  private async runBulkOneByOne(
+    operations: AnyBulkWriteOperation[],
+    offset: number,
+    ordered: boolean,
+    report: BulkWriteReport,
+  ): Promise<boolean> {
+    for (const [i, operation] of operations.entries()) {
+      try {
+        const result = await this.model.bulkWrite<any>(
+          [operation],
+          this.attachSession({ ordered: true }),
+        );
+        this.recordBulkResult(report, result, offset + i, 1);
+      } catch (error) {
+        const writeError = this.firstWriteError(error);
+        if (!writeError && !this.isBulkCastError(error)) {
+          throw error;
+        }
+        this.recordBulkFailure(report, offset + i, {
+          message: writeError?.errmsg ?? (error as Error).message,
+          code: writeError?.code,
+        });
+        if (ordered) {
+          return true;
+        }
+      }
+    }
+    return false;
+  }
+
+  private isBulkCastError(error: unknown): boolean {
+    return (
+      error instanceof MongooseError.ValidationError ||
+      error instanceof MongooseError.CastError
+    );
+  }
+
+  // 작업별 쓰기 오류가 없는 MongoBulkWriteError는 드라이버/서버 수준의 실패다
+  private firstWriteError(error: unknown): mongo.WriteError | undefined {
+    if (!(error instanceof mongo.MongoBulkWriteError)) {
+      return undefined;
+    }
+    return ([] as mongo.WriteError[]).concat(error.writeErrors)[0];
+  }
+
+  // result의 앞에서 count개의 작업을 성공으로 기록한다
+  private recordBulkResult(
+    report: BulkWriteReport,
+    result: mongo.BulkWriteResult,
+    offset: number,
+    count: number,
+  ): void {
+    report.insertedCount += result.insertedCount;
+    report.matchedCount += result.matchedCount;
+    report.modifiedCount += result.modifiedCount;
+    report.deletedCount += result.deletedCount;
+    report.upsertedCount += result.upsertedCount;
+    for (let i = 0; i < count; i++) {
+      const id: unknown = result.upsertedIds[i] ?? result.insertedIds[i];
+      report.items.push({ index: offset + i, ok: true, ...(id != null && { id }) });
+      report.succeeded++;
+    }
+  }
+
+  private recordBulkFailure(
+    report: BulkWriteReport,
+    index: number,
+    error: BulkItemResult["error"],
+  ): void {
+    report.items.push({ index, ok: false, error });
+    report.failed++;
+  }
+
+  private createBulkReport(total: number, acknowledged: boolean): BulkWriteReport {
+    return {
+      acknowledged,
+      total,
+      succeeded: 0,
+      failed: 0,
+      insertedCount: 0,
+      matchedCount: 0,
+      modifiedCount: 0,
+      deletedCount: 0,
+      upsertedCount: 0,
+      items: [],
+    };
+  }
+
+  private async softDeleteOne(
+    filter: FilterQuery<T>,
+    options?: object,
+  ): Promise<T | null> {
+    const deletion = this.deletionMark();
+    return await this.write(
+      async () =>
+        await this.model.findOneAndUpdate(
+          this.applySoftDeleteFilter(filter),
+          { $set: deletion },
+          this.attachSession({ new: true, ...options }),
+        ),
+      null,
+    );
+  }
+
+  // 삭제한 사용자는 요청 컨텍스트에서 가져온다
+  private deletionMark(): Required<SoftDeletable> {
+    return {
+      deletedAt: new Date(),
+      deletedBy: this.getRequestContext()?.userId ?? null,
+    };
+  }
+
+  private toCursorSort(sort: Record<string, 1 | -1> = {}): Record<string, 1 | -1> {
+    const directions = Object.values(sort);
+    return { ...sort, _id: sort._id ?? directions[directions.length - 1] ?? -1 };
+  }
+
+  // (k1, k2, ..., _id) 순서에서 커서 위치보다 뒤에 있는 문서만 남긴다
+  private afterCursorFilter(
+    sort: Record<string, 1 | -1>,
+    values: unknown[],
+  ): FilterQuery<T> {
+    const keys = Object.keys(sort);
+    const branches = keys.map((key, i) => {
+      const branch: Record<string, unknown> = {};
+      keys.slice(0, i).forEach((prev, j) => (branch[prev] = values[j]));
+      branch[key] = { [sort[key] === 1 ? "$gt" : "$lt"]: values[i] };
+      return branch;
+    });
+    return { $or: branches } as FilterQuery<T>;
+  }
+
+  // Date, ObjectId 등의 타입을 보존하도록 EJSON으로 직렬화한다
+  private encodeCursor(sort: Record<string, 1 | -1>, doc: unknown): string {
+    const keys = Object.keys(sort);
+    const values = keys.map((key) =>
+      key
+        .split(".")
+        .reduce<unknown>(
+          (value, part) => (value as Record<string, unknown> | undefined)?.[part],
+          doc,
+        ),
+    );
+    const payload = mongo.BSON.EJSON.stringify({ keys, values });
+    return Buffer.from(payload).toString("base64url");
+  }
+
+  private decodeCursor(cursor: string, sort: Record<string, 1 | -1>): unknown[] {
+    const keys = Object.keys(sort);
+    try {
+      const payload = mongo.BSON.EJSON.parse(
+        Buffer.from(cursor, "base64url").toString(),
+      ) as { keys?: unknown; values?: unknown };
+      // 다른 정렬 조건으로 만든 커서는 받지 않는다
+      if (
+        !Array.isArray(payload.keys) ||
+        !Array.isArray(payload.values) ||
+        payload.keys.join(",") !== keys.join(",") ||
+        payload.values.length !== keys.length
+      ) {
+        throw new Error("cursor does not match the sort keys");
+      }
+      // 조작된 커서로 {"$ne": null} 같은 연산자가 필터에 들어가지 않도록 한다
+      if (!payload.values.every((value) => this.isCursorValue(value))) {
+        throw new Error("cursor contains a non-scalar value");
+      }
+      return payload.values;
+    } catch {
+      throw new InvalidCursorException(cursor);
+    }
+  }
+
+  private isCursorValue(value: unknown): boolean {
+    return (
+      value === null ||
+      ["string", "number", "boolean"].includes(typeof value) ||
+      value instanceof Date ||
+      value instanceof mongo.ObjectId
+    );
   }
 }
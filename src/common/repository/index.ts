@@ -1,2 +1,17 @@
-export { BaseRepository } from "./base.repository";
+export {
+  AggregateStreamOptions,
+  BaseRepository,
+  BulkItemResult,
+  BulkOptions,
+  BulkWriteReport,
+  CursorPage,
+  FindOptions,
+  HydratedFindOptions,
+  LeanDocument,
+  LeanFindOptions,
+  RepositoryOptions,
+  SoftDeletable,
+  StreamOptions,
+  UpsertItem,
+} from "./base.repository";
 export { RepositoryTestUtils } from "./repository-test.utils";
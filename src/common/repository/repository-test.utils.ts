@@ -1,11 +1,22 @@
 import { Query, ClientSession, Model, Document } from "mongoose";
 import { BaseRepository } from "./base.repository";
 import { TransactionContextStorage } from "../transaction/transaction.context";
-import { Connection, Types } from "mongoose";
+import { ReadOnlyTransactionError } from "../transaction/transaction.errors";
+import { InvalidCursorException } from "../exception";
+import { Connection, Types, mongo } from "mongoose";
 import { MongoMemoryReplSet } from "mongodb-memory-server";
 import { Test, TestingModule } from "@nestjs/testing";
 import { getConnectionToken, MongooseModule } from "@nestjs/mongoose";
 
+// 스트림을 끝까지 읽어 배열로 모은다
+async function collect<R>(iterable: AsyncIterable<R>): Promise<R[]> {
+  const items: R[] = [];
+  for await (const item of iterable) {
+    items.push(item);
+  }
+  return items;
+}
+
 // Repository 테스트를 위한 공통 설정 유틸리티
 export class RepositoryTestUtils {
   static async createTestModule<T extends Document>(
@@ -238,6 +249,110 @@ export class RepositoryTestUtils {
         });
       },
 
+      testFindWithCursor: () => {
+        describe("Cursor pagination", () => {
+          const createDocs = async (count: number): Promise<string[]> => {
+            const repository = getRepository();
+            const ids: string[] = [];
+            for (let i = 0; i < count; i++) {
+              const created = await repository.create(getSampleData());
+              ids.push((created as any)._id.toString());
+            }
+            return ids;
+          };
+
+          test("should page through all documents without duplicates", async () => {
+            const repository = getRepository();
+            const ids = await createDocs(5);
+
+            const first = await repository.findWithCursor({}, { limit: 2 });
+            const second = await repository.findWithCursor(
+              {},
+              { limit: 2, after: first.nextCursor! },
+            );
+            const third = await repository.findWithCursor(
+              {},
+              { limit: 2, after: second.nextCursor! },
+            );
+
+            expect(first.hasMore).toBe(true);
+            expect(second.hasMore).toBe(true);
+            expect(third.hasMore).toBe(false);
+            expect(third.nextCursor).toBeNull();
+            // 기본 정렬은 _id 내림차순
+            const paged = [...first.data, ...second.data, ...third.data].map((doc: any) =>
+              doc._id.toString(),
+            );
+            expect(paged).toEqual([...ids].reverse());
+          });
+
+          test("should break ties on sort keys by _id", async () => {
+            const repository = getRepository();
+            // 모든 문서의 정렬 키 값이 같다
+            const [field] = Object.keys(getSampleData());
+            const ids = await createDocs(3);
+
+            const pages: string[] = [];
+            let after: string | undefined;
+            do {
+              const page = await repository.findWithCursor(
+                {},
+                { limit: 1, after, sort: { [field]: 1 } },
+              );
+              pages.push(...page.data.map((doc: any) => doc._id.toString()));
+              after = page.nextCursor ?? undefined;
+            } while (after);
+
+            expect(pages).toEqual(ids);
+          });
+
+          test("should apply the filter together with the cursor", async () => {
+            const repository = getRepository();
+            const ids = await createDocs(4);
+            const filter = { _id: { $in: ids.slice(0, 3) } };
+
+            const first = await repository.findWithCursor(filter, { limit: 2 });
+            const second = await repository.findWithCursor(filter, {
+              limit: 2,
+              after: first.nextCursor!,
+            });
+
+            expect(second.data.map((doc: any) => doc._id.toString())).toEqual([ids[0]]);
+            expect(second.hasMore).toBe(false);
+          });
+
+          test("should reject malformed or mismatched cursors", async () => {
+            const repository = getRepository();
+            await createDocs(2);
+            const { nextCursor } = await repository.findWithCursor({}, { limit: 1 });
+
+            await expect(
+              repository.findWithCursor({}, { after: "not-a-cursor" }),
+            ).rejects.toThrow(InvalidCursorException);
+            // 다른 정렬 조건으로 만든 커서
+            await expect(
+              repository.findWithCursor(
+                {},
+                { after: nextCursor!, sort: { [Object.keys(getSampleData())[0]]: 1 } },
+              ),
+            ).rejects.toThrow(InvalidCursorException);
+          });
+
+          test("should reject cursors carrying query operators", async () => {
+            const repository = getRepository();
+            await createDocs(2);
+            // 정렬 키는 맞지만 값 자리에 연산자를 넣어 조작한 커서
+            const forged = Buffer.from(
+              mongo.BSON.EJSON.stringify({ keys: ["_id"], values: [{ $ne: null }] }),
+            ).toString("base64url");
+
+            await expect(
+              repository.findWithCursor({}, { after: forged }),
+            ).rejects.toThrow(InvalidCursorException);
+          });
+        });
+      },
+
       testFindOne: () => {
         test("should find one document by filter", async () => {
           const repository = getRepository();
@@ -286,6 +401,91 @@ export class RepositoryTestUtils {
         });
       },
 
+      testFindOptions: () => {
+        describe("Find options", () => {
+          // 샘플 데이터에서 문자열 필드 하나를 골라 projection/collation 검증에 사용
+          const getStringField = (): [string, string] => {
+            const entry = Object.entries(getSampleData()).find(
+              ([, value]) => typeof value === "string" && value.length > 0,
+            );
+            if (!entry) {
+              throw new Error("Sample data must contain a string field");
+            }
+            return entry as [string, string];
+          };
+
+          test("should return plain objects when lean is set", async () => {
+            const repository = getRepository();
+            const created = await repository.create(getSampleData());
+            const id = (created as any)._id.toString();
+
+            const lean = await repository.findById(id, { lean: true });
+            const hydrated = await repository.findById(id);
+
+            expect(lean).not.toBeInstanceOf(Document);
+            expect((lean as any)._id.toString()).toBe(id);
+            expect(hydrated).toBeInstanceOf(Document);
+          });
+
+          test("should apply projection", async () => {
+            const repository = getRepository();
+            const [field] = getStringField();
+            const created = await repository.create(getSampleData());
+
+            const found = await repository.findOne(
+              { _id: (created as any)._id },
+              { lean: true, projection: { [field]: 1 } },
+            );
+
+            expect(Object.keys(found!).sort()).toEqual(["_id", field].sort());
+          });
+
+          test("should apply sort, skip and limit", async () => {
+            const repository = getRepository();
+            const created: any[] = [];
+            for (let i = 0; i < 3; i++) {
+              created.push(await repository.create(getSampleData()));
+            }
+            const ids = created.map((doc) => doc._id.toString()).reverse();
+
+            const sorted = await repository.find({}, { sort: { _id: -1 } });
+            const page = await repository.find(
+              {},
+              { sort: { _id: -1 }, skip: 1, limit: 1 },
+            );
+
+            expect(sorted.map((doc: any) => doc._id.toString())).toEqual(ids);
+            expect(page).toHaveLength(1);
+            expect((page[0] as any)._id.toString()).toBe(ids[1]);
+          });
+
+          test("should apply collation", async () => {
+            const repository = getRepository();
+            const [field, value] = getStringField();
+            await repository.create(getSampleData());
+            const filter = { [field]: value.toUpperCase() } as any;
+
+            const withoutCollation = await repository.find(filter);
+            const withCollation = await repository.find(filter, {
+              collation: { locale: "en", strength: 2 },
+            });
+
+            expect(withoutCollation).toHaveLength(value === value.toUpperCase() ? 1 : 0);
+            expect(withCollation).toHaveLength(1);
+          });
+
+          test("should pass populate paths to the query", async () => {
+            const repository = getRepository();
+            await repository.create(getSampleData());
+
+            // 스키마에 없는 경로는 strictPopulate 검증에 걸린다
+            await expect(
+              repository.find({}, { populate: "__notInSchema__" }),
+            ).rejects.toThrow(/__notInSchema__/);
+          });
+        });
+      },
+
       testAggregate: () => {
         test("should aggregate documents", async () => {
           const repository = getRepository();
@@ -486,6 +686,475 @@ export class RepositoryTestUtils {
         });
       },
 
+      testStream: () => {
+        describe("Stream", () => {
+          test("should stream every document in batches", async () => {
+            const repository = getRepository();
+            for (let i = 0; i < 5; i++) {
+              await repository.create(getSampleData());
+            }
+
+            const docs = await collect(repository.stream({}, { batchSize: 2 }));
+
+            expect(docs).toHaveLength(5);
+            expect(docs[0]).toBeInstanceOf(Document);
+          });
+
+          test("should apply find options to the stream", async () => {
+            const repository = getRepository();
+            const [field] = Object.keys(getSampleData());
+            const created: any[] = [];
+            for (let i = 0; i < 3; i++) {
+              created.push(await repository.create(getSampleData()));
+            }
+
+            const docs = await collect(
+              repository.stream(
+                {},
+                { lean: true, projection: { [field]: 1 }, sort: { _id: -1 }, limit: 2 },
+              ),
+            );
+
+            expect(docs.map((doc: any) => doc._id.toString())).toEqual([
+              created[2]._id.toString(),
+              created[1]._id.toString(),
+            ]);
+            expect(docs[0]).not.toBeInstanceOf(Document);
+            expect(Object.keys(docs[0]).sort()).toEqual(["_id", field].sort());
+          });
+
+          test("should stop reading when the consumer breaks", async () => {
+            const repository = getRepository();
+            for (let i = 0; i < 3; i++) {
+              await repository.create(getSampleData());
+            }
+
+            let read = 0;
+            for await (const doc of repository.stream({}, { batchSize: 1 })) {
+              expect(doc).toBeDefined();
+              read++;
+              break;
+            }
+
+            expect(read).toBe(1);
+            expect(await repository.count({})).toBe(3);
+          });
+
+          test("should read uncommitted writes of the current transaction", async () => {
+            const repository = getRepository();
+            const transactionContextStorage = repository["transactionContextStorage"];
+            const session = await repository["model"].db.startSession();
+
+            let streamed: unknown[] = [];
+            try {
+              await session.withTransaction(() =>
+                transactionContextStorage.run({ session }, async () => {
+                  await repository.create(getSampleData());
+                  streamed = await collect(repository.stream({}));
+                }),
+              );
+            } finally {
+              await session.endSession();
+            }
+
+            expect(streamed).toHaveLength(1);
+          });
+
+          test("should stream aggregation results", async () => {
+            const repository = getRepository();
+            for (let i = 0; i < 3; i++) {
+              await repository.create(getSampleData());
+            }
+
+            const results = await collect(
+              repository.aggregateStream<{ _id: unknown }>(
+                [{ $project: { _id: 1 } }, { $sort: { _id: 1 } }],
+                { batchSize: 1 },
+              ),
+            );
+
+            expect(results).toHaveLength(3);
+          });
+        });
+      },
+
+      testBulkWrite: () => {
+        describe("Bulk write", () => {
+          afterEach(() => {
+            jest.restoreAllMocks();
+          });
+
+          test("should insert documents and report their ids", async () => {
+            const repository = getRepository();
+            const docs = [getSampleData(), getSampleData(), getSampleData()];
+
+            const report = await repository.insertMany(docs);
+
+            expect(report.acknowledged).toBe(true);
+            expect(report.succeeded).toBe(3);
+            expect(report.insertedCount).toBe(3);
+            const ids = report.items.map((item) => String(item.id));
+            const found = await repository.find({});
+            expect(found.map((doc: any) => doc._id.toString()).sort()).toEqual(
+              ids.sort(),
+            );
+          });
+
+          test("should split operations into chunks", async () => {
+            const repository = getRepository();
+            const spy = jest.spyOn(repository["model"], "bulkWrite");
+            const docs = Array.from({ length: 5 }, () => getSampleData());
+
+            const report = await repository.insertMany(docs, { chunkSize: 2 });
+
+            expect(spy).toHaveBeenCalledTimes(3);
+            expect(report.items.map((item) => item.index)).toEqual([0, 1, 2, 3, 4]);
+            expect(await repository.count({})).toBe(5);
+          });
+
+          test("should report failed items and continue when unordered", async () => {
+            const repository = getRepository();
+            const duplicateId = new Types.ObjectId();
+            const docs = [
+              { ...getSampleData(), _id: duplicateId },
+              { ...getSampleData(), _id: duplicateId },
+              { ...getSampleData(), _id: "not-an-object-id" },
+              getSampleData(),
+            ];
+
+            const report = await repository.insertMany(docs, { ordered: false });
+
+            expect(report.items.map((item) => item.ok)).toEqual([
+              true,
+              false,
+              false,
+              true,
+            ]);
+            expect(report.items[1].error!.code).toBe(11000);
+            expect(report.items[2].error!.message).toBeDefined();
+            expect(report.succeeded).toBe(2);
+            expect(report.failed).toBe(2);
+            expect(await repository.count({})).toBe(2);
+          });
+
+          test("should stop at the first failure when ordered", async () => {
+            const repository = getRepository();
+            const duplicateId = new Types.ObjectId();
+            const docs = [
+              { ...getSampleData(), _id: duplicateId },
+              { ...getSampleData(), _id: duplicateId },
+              getSampleData(),
+            ];
+
+            const report = await repository.insertMany(docs);
+
+            expect(report.items.map((item) => item.ok)).toEqual([true, false, false]);
+            expect(report.items[2].error!.message).toMatch(/Not executed/);
+            expect(await repository.count({})).toBe(1);
+          });
+
+          test("should rethrow bulk errors without write errors", async () => {
+            const repository = getRepository();
+            // 네트워크 오류, WriteConflict 등은 writeErrors 없이 전달된다
+            const driverError = new mongo.MongoBulkWriteError(
+              { message: "WriteConflict", code: 112, writeErrors: [] },
+              {} as mongo.BulkWriteResult,
+            );
+            driverError.addErrorLabel("TransientTransactionError");
+            jest
+              .spyOn(repository["model"], "bulkWrite")
+              .mockRejectedValueOnce(driverError);
+
+            const error = await repository
+              .insertMany([getSampleData()])
+              .catch((e: unknown) => e);
+
+            expect(error).toBe(driverError);
+            expect(driverError.hasErrorLabel("TransientTransactionError")).toBe(true);
+          });
+
+          test("should not retry one by one after a server error", async () => {
+            const repository = getRepository();
+            const serverError = new mongo.MongoServerError({
+              message: "not primary",
+              code: 10107,
+            });
+            const spy = jest
+              .spyOn(repository["model"], "bulkWrite")
+              .mockRejectedValueOnce(serverError);
+
+            await expect(
+              repository.insertMany([getSampleData(), getSampleData()]),
+            ).rejects.toBe(serverError);
+            expect(spy).toHaveBeenCalledTimes(1);
+            expect(await repository.count({})).toBe(0);
+          });
+
+          test("should upsert documents", async () => {
+            const repository = getRepository();
+            const existing = await repository.create(getSampleData());
+            const newId = new Types.ObjectId();
+
+            const report = await repository.upsertMany([
+              {
+                filter: { _id: (existing as any)._id },
+                update: { $set: getUpdateData() },
+              },
+              { filter: { _id: newId }, update: { $set: getSampleData() } },
+            ]);
+
+            expect(report.matchedCount).toBe(1);
+            expect(report.upsertedCount).toBe(1);
+            expect(String(report.items[1].id)).toBe(newId.toString());
+            expect(await repository.count({})).toBe(2);
+            const updated = await repository.findById((existing as any)._id.toString());
+            Object.entries(getUpdateData()).forEach(([key, value]) => {
+              expect((updated as any)[key]).toEqual(value);
+            });
+          });
+
+          test("should write within the current transaction", async () => {
+            const repository = getRepository();
+            const transactionContextStorage = repository["transactionContextStorage"];
+            const session = await repository["model"].db.startSession();
+
+            try {
+              await expect(
+                session.withTransaction(() =>
+                  transactionContextStorage.run({ session }, async () => {
+                    await repository.insertMany([getSampleData(), getSampleData()]);
+                    throw new Error("rollback");
+                  }),
+                ),
+              ).rejects.toThrow("rollback");
+            } finally {
+              await session.endSession();
+            }
+
+            expect(await repository.count({})).toBe(0);
+          });
+
+          test("should defer bulk writes in a unit of work", async () => {
+            const repository = getRepository();
+            const transactionContextStorage = repository["transactionContextStorage"];
+
+            await transactionContextStorage.runUnitOfWork(async () => {
+              const report = await repository.insertMany([getSampleData()]);
+              expect(report.acknowledged).toBe(false);
+              expect(await repository.count({})).toBe(0);
+            });
+
+            expect(await repository.count({})).toBe(1);
+          });
+        });
+      },
+
+      testUnitOfWork: () => {
+        describe("Unit of Work", () => {
+          test("should flush buffered writes when the unit of work succeeds", async () => {
+            const repository = getRepository();
+            const transactionContextStorage = repository["transactionContextStorage"];
+            const sampleData = getSampleData();
+
+            const created = await transactionContextStorage.runUnitOfWork(async () => {
+              const provisional = await repository.create(sampleData);
+              // 반영 전이므로 조회되지 않아야 함
+              const found = await repository.findById(
+                (provisional as any)._id.toString(),
+              );
+              expect(found).toBeNull();
+              return provisional;
+            });
+
+            const found = await repository.findById((created as any)._id.toString());
+            expect(found).not.toBeNull();
+          });
+
+          test("should discard only the failed unit's writes", async () => {
+            const repository = getRepository();
+            const transactionContextStorage = repository["transactionContextStorage"];
+            const mongoConnection = repository["model"].db;
+            const session = await mongoConnection.startSession();
+
+            let keptId: string;
+            let discardedId: string;
+            try {
+              await session.withTransaction(async () => {
+                await transactionContextStorage.run({ session }, async () => {
+                  const kept = await repository.create(getSampleData());
+                  keptId = (kept as any)._id.toString();
+
+                  await expect(
+                    transactionContextStorage.runUnitOfWork(async () => {
+                      const discarded = await repository.create(getSampleData());
+                      discardedId = (discarded as any)._id.toString();
+                      await repository.deleteById(keptId);
+                      throw new Error("sub-step failed");
+                    }),
+                  ).rejects.toThrow("sub-step failed");
+                });
+              });
+            } finally {
+              await session.endSession();
+            }
+
+            expect(await repository.findById(keptId!)).not.toBeNull();
+            expect(await repository.findById(discardedId!)).toBeNull();
+          }, 10000);
+
+          test("should merge nested unit of work writes into the parent", async () => {
+            const repository = getRepository();
+            const transactionContextStorage = repository["transactionContextStorage"];
+
+            let innerId: string;
+            await expect(
+              transactionContextStorage.runUnitOfWork(async () => {
+                await transactionContextStorage.runUnitOfWork(async () => {
+                  const inner = await repository.create(getSampleData());
+                  innerId = (inner as any)._id.toString();
+                });
+                throw new Error("outer unit failed");
+              }),
+            ).rejects.toThrow("outer unit failed");
+
+            // 바깥 작업 단위가 실패하면 안쪽에서 성공한 쓰기도 반영되지 않아야 함
+            expect(await repository.findById(innerId!)).toBeNull();
+          });
+
+          test("should return provisional results for buffered writes", async () => {
+            const repository = getRepository();
+            const transactionContextStorage = repository["transactionContextStorage"];
+            const created = await repository.create(getSampleData());
+            const id = (created as any)._id.toString();
+
+            await transactionContextStorage.runUnitOfWork(async () => {
+              expect(await repository.updateById(id, getUpdateData())).toBeNull();
+              const result = await repository.deleteMany({});
+              expect(result.acknowledged).toBe(false);
+            });
+
+            expect(await repository.count({})).toBe(0);
+          });
+        });
+      },
+
+      testReadOnly: () => {
+        describe("Read-only context", () => {
+          test("should reject write methods in a read-only context", async () => {
+            const repository = getRepository();
+            const transactionContextStorage = repository["transactionContextStorage"];
+            const created = await repository.create(getSampleData());
+            const id = (created as any)._id.toString();
+
+            await transactionContextStorage.runReadOnly(async () => {
+              await expect(repository.create(getSampleData())).rejects.toThrow(
+                ReadOnlyTransactionError,
+              );
+              await expect(repository.updateById(id, getUpdateData())).rejects.toThrow(
+                ReadOnlyTransactionError,
+              );
+              await expect(repository.deleteMany({})).rejects.toThrow(
+                ReadOnlyTransactionError,
+              );
+            });
+
+            expect(await repository.count({})).toBe(1);
+          });
+
+          test("should allow reads in a read-only context", async () => {
+            const repository = getRepository();
+            const transactionContextStorage = repository["transactionContextStorage"];
+            const created = await repository.create(getSampleData());
+
+            const found = await transactionContextStorage.runReadOnly(() =>
+              repository.findById((created as any)._id.toString()),
+            );
+
+            expect(found).not.toBeNull();
+          });
+        });
+      },
+
+      // 소프트 삭제를 켠 저장소에서만 실행한다
+      testSoftDelete: () => {
+        describe("Soft delete", () => {
+          test("should hide soft-deleted documents from reads", async () => {
+            const repository = getRepository();
+            const created = await repository.create(getSampleData());
+            const id = (created as any)._id.toString();
+
+            const deleted = await repository.deleteById(id);
+
+            expect((deleted as any).deletedAt).toBeInstanceOf(Date);
+            expect(await repository.findById(id)).toBeNull();
+            expect(await repository.findOne({ _id: id })).toBeNull();
+            expect(await repository.find({})).toHaveLength(0);
+            expect(await repository.count({})).toBe(0);
+            expect(await repository.aggregate([{ $count: "totalCount" }])).toHaveLength(
+              0,
+            );
+            expect((await repository.findWithCursor({})).data).toHaveLength(0);
+            expect(await collect(repository.stream({}))).toHaveLength(0);
+            expect(await collect(repository.aggregateStream([]))).toHaveLength(0);
+          });
+
+          test("should find soft-deleted documents through withDeleted()", async () => {
+            const repository = getRepository();
+            const created = await repository.create(getSampleData());
+            const id = (created as any)._id.toString();
+            await repository.deleteById(id);
+
+            const found = await repository.withDeleted().findById(id);
+
+            expect(found).not.toBeNull();
+            expect((found as any).deletedAt).toBeInstanceOf(Date);
+            expect(await repository.withDeleted().count({})).toBe(1);
+          });
+
+          test("should record the requesting user as deletedBy", async () => {
+            const repository = getRepository();
+            const transactionContextStorage = repository["transactionContextStorage"];
+            const created = await repository.create(getSampleData());
+            const id = (created as any)._id.toString();
+
+            await transactionContextStorage.runWithRequestContext(
+              { requestId: "request-1", userId: "admin-1" },
+              () => repository.deleteOne({ _id: id }),
+            );
+
+            const found = await repository.withDeleted().findById(id);
+            expect((found as any).deletedBy).toBe("admin-1");
+          });
+
+          test("should not update or delete soft-deleted documents again", async () => {
+            const repository = getRepository();
+            const created = await repository.create(getSampleData());
+            const id = (created as any)._id.toString();
+            await repository.deleteById(id);
+
+            expect(await repository.updateById(id, getUpdateData())).toBeNull();
+            expect(await repository.deleteById(id)).toBeNull();
+            expect((await repository.deleteMany({})).deletedCount).toBe(0);
+          });
+
+          test("should restore soft-deleted documents", async () => {
+            const repository = getRepository();
+            await repository.create(getSampleData());
+            await repository.create(getSampleData());
+
+            const deleted = await repository.deleteMany({});
+            const restored = await repository.restore({});
+
+            expect(deleted.deletedCount).toBe(2);
+            expect(restored.modifiedCount).toBe(2);
+            const found = await repository.find({});
+            expect(found).toHaveLength(2);
+            expect((found[0] as any).deletedAt).toBeNull();
+            expect((found[0] as any).deletedBy).toBeNull();
+          });
+        });
+      },
+
       runAllTests: () => {
         describe("BaseRepository CRUD operations", () => {
           const tests = RepositoryTestUtils.createCommonCrudTests(
@@ -498,6 +1167,7 @@ export class RepositoryTestUtils {
           tests.testFindById();
           tests.testFindOne();
           tests.testFind();
+          tests.testFindOptions();
           tests.testAggregate();
           tests.testUpdateById();
           tests.testUpdateOne();
@@ -507,9 +1177,14 @@ export class RepositoryTestUtils {
           tests.testDeleteMany();
           tests.testCount();
           tests.testFindWithPagination();
+          tests.testFindWithCursor();
+          tests.testBulkWrite();
+          tests.testStream();
 
           // 트랜잭션 테스트는 별도의 describe 블록으로 실행
           tests.testTransactionSupport();
+          tests.testUnitOfWork();
+          tests.testReadOnly();
         });
       },
     };
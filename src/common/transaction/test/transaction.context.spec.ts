@@ -88,10 +88,10 @@ describe("TransactionContextStorage", () => {
           const outerSessionFromStorage = storage.getSession();
           expect(outerSessionFromStorage).toBe(outerSession);
 
-          return storage.run(innerContext, async () => {
+          return storage.run(innerContext, () => {
             const innerSessionFromStorage = storage.getSession();
             expect(innerSessionFromStorage).toBe(innerSession);
-            return "nested result";
+            return Promise.resolve("nested result");
           });
         });
 
@@ -112,9 +112,10 @@ describe("TransactionContextStorage", () => {
 
       try {
         // When & Then: run 내부에서 세션 조회
-        await storage.run(context, async () => {
+        await storage.run(context, () => {
           const retrievedSession = storage.getSession();
           expect(retrievedSession).toBe(session);
+          return Promise.resolve();
         });
       } finally {
         await session.endSession();
@@ -126,9 +127,10 @@ describe("TransactionContextStorage", () => {
       const context = {};
 
       // When & Then: run 내부에서 세션 조회
-      await storage.run(context, async () => {
+      await storage.run(context, () => {
         const retrievedSession = storage.getSession();
         expect(retrievedSession).toBeUndefined();
+        return Promise.resolve();
       });
     });
 
@@ -152,8 +154,9 @@ describe("TransactionContextStorage", () => {
         await storage.run(outerContext, async () => {
           expect(storage.getSession()).toBe(outerSession);
 
-          await storage.run(innerContext, async () => {
+          await storage.run(innerContext, () => {
             expect(storage.getSession()).toBe(innerSession);
+            return Promise.resolve();
           });
 
           // 내부 컨텍스트 종료 후 다시 외부 세션이 조회되어야 함
@@ -277,4 +280,125 @@ describe("TransactionContextStorage", () => {
       }
     });
   });
+
+  describe("hooks without transaction", () => {
+    test("should run afterCommit immediately when no transaction is active", async () => {
+      // Given
+      const hook = jest.fn();
+
+      // When
+      await storage.afterCommit(hook);
+
+      // Then
+      expect(hook).toHaveBeenCalledTimes(1);
+    });
+
+    test("should run afterCompletion immediately as committed", async () => {
+      // Given
+      const hook = jest.fn();
+
+      // When
+      await storage.afterCompletion(hook);
+
+      // Then
+      expect(hook).toHaveBeenCalledWith("COMMITTED");
+    });
+
+    test("should ignore afterRollback when no transaction is active", () => {
+      // Given
+      const hook = jest.fn();
+
+      // When
+      storage.afterRollback(hook);
+
+      // Then
+      expect(hook).not.toHaveBeenCalled();
+    });
+
+    test("should run immediately when the session is not in a transaction", async () => {
+      // Given: 트랜잭션이 시작되지 않은 세션
+      const session = await mongoConnection.startSession();
+      const hook = jest.fn();
+
+      try {
+        // When
+        await storage.run({ session }, () => storage.afterCommit(hook));
+
+        // Then
+        expect(hook).toHaveBeenCalledTimes(1);
+      } finally {
+        await session.endSession();
+      }
+    });
+  });
+
+  describe("runUnitOfWork", () => {
+    test("should run deferred writes after the unit of work succeeds", async () => {
+      // Given
+      const calls: string[] = [];
+
+      // When
+      const result = await storage.runUnitOfWork(() => {
+        storage.deferWrite(() => {
+          calls.push("write");
+          return Promise.resolve();
+        });
+        calls.push("body");
+        return Promise.resolve("done");
+      });
+
+      // Then
+      expect(result).toBe("done");
+      expect(calls).toEqual(["body", "write"]);
+    });
+
+    test("should discard deferred writes when the unit of work fails", async () => {
+      // Given
+      const write = jest.fn();
+
+      // When & Then
+      await expect(
+        storage.runUnitOfWork(() => {
+          storage.deferWrite(write);
+          return Promise.reject(new Error("sub-step failed"));
+        }),
+      ).rejects.toThrow("sub-step failed");
+      expect(write).not.toHaveBeenCalled();
+    });
+
+    test("should not defer writes outside of a unit of work", () => {
+      // When & Then
+      expect(storage.deferWrite(jest.fn())).toBe(false);
+    });
+  });
+
+  describe("request context", () => {
+    test("should keep the request context when running with a new session", async () => {
+      // Given
+      const requestContext = { requestId: "req-1", userId: "user-1" };
+      const session = await mongoConnection.startSession();
+
+      try {
+        // When
+        const [found, foundSession] = await storage.runWithRequestContext(
+          requestContext,
+          () =>
+            storage.run({ session }, () =>
+              Promise.resolve([storage.getRequestContext(), storage.getSession()]),
+            ),
+        );
+
+        // Then
+        expect(found).toEqual(requestContext);
+        expect(foundSession).toBe(session);
+      } finally {
+        await session.endSession();
+      }
+    });
+
+    test("should return undefined outside of a request", () => {
+      // When & Then
+      expect(storage.getRequestContext()).toBeUndefined();
+    });
+  });
 });
@@ -0,0 +1,74 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { TransactionMetrics } from "../transaction.metrics";
+import { TransactionMetricsController } from "../transaction.controller";
+
+describe("TransactionMetrics", () => {
+  let metrics: TransactionMetrics;
+  let controller: TransactionMetricsController;
+
+  beforeEach(async () => {
+    const testModule: TestingModule = await Test.createTestingModule({
+      providers: [TransactionMetrics],
+      controllers: [TransactionMetricsController],
+    }).compile();
+
+    metrics = testModule.get<TransactionMetrics>(TransactionMetrics);
+    controller = testModule.get<TransactionMetricsController>(
+      TransactionMetricsController,
+    );
+  });
+
+  test("should aggregate records by label", () => {
+    // Given
+    metrics.record({
+      label: "PointsService.usePoints",
+      status: "COMMITTED",
+      durationMs: 10,
+      retries: 0,
+    });
+    metrics.record({
+      label: "PointsService.usePoints",
+      status: "ROLLED_BACK",
+      durationMs: 30,
+      retries: 2,
+    });
+
+    // When
+    const [usePoints] = metrics.snapshot();
+
+    // Then
+    expect(usePoints).toEqual({
+      label: "PointsService.usePoints",
+      count: 2,
+      commits: 1,
+      aborts: 1,
+      retries: 2,
+      totalDurationMs: 40,
+      avgDurationMs: 20,
+      maxDurationMs: 30,
+      lastDurationMs: 30,
+    });
+  });
+
+  test("should return labels in order and clear them on reset", () => {
+    // Given
+    metrics.record({ label: "b", status: "COMMITTED", durationMs: 1, retries: 0 });
+    metrics.record({ label: "a", status: "COMMITTED", durationMs: 1, retries: 0 });
+
+    // When & Then
+    expect(metrics.snapshot().map((m) => m.label)).toEqual(["a", "b"]);
+    metrics.reset();
+    expect(metrics.snapshot()).toEqual([]);
+  });
+
+  test("should expose the snapshot through the metrics endpoint", () => {
+    // Given
+    metrics.record({ label: "a", status: "COMMITTED", durationMs: 5, retries: 0 });
+
+    // When
+    const result = controller.getMetrics();
+
+    // Then
+    expect(result).toEqual(metrics.snapshot());
+  });
+});
@@ -0,0 +1,58 @@
+import { ConfigService } from "@nestjs/config";
+import { loadTransactionDefaults } from "../transaction.options";
+
+describe("loadTransactionDefaults", () => {
+  test("should return empty defaults without ConfigService", () => {
+    // When & Then
+    expect(loadTransactionDefaults()).toEqual({});
+  });
+
+  test("should read transaction defaults from environment variables", () => {
+    // Given
+    const config = new ConfigService({
+      TRANSACTION_READ_CONCERN: "majority",
+      TRANSACTION_WRITE_CONCERN: "majority",
+      TRANSACTION_READ_PREFERENCE: "primary",
+      TRANSACTION_MAX_COMMIT_TIME_MS: "1000",
+      TRANSACTION_MAX_RETRIES: "5",
+      TRANSACTION_SLOW_THRESHOLD_MS: "2000",
+    });
+
+    // When
+    const defaults = loadTransactionDefaults(config);
+
+    // Then
+    expect(defaults).toEqual({
+      readConcern: "majority",
+      writeConcern: { w: "majority" },
+      readPreference: "primary",
+      maxCommitTimeMS: 1000,
+      maxRetries: 5,
+      slowThresholdMs: 2000,
+    });
+  });
+
+  test("should parse numeric write concern", () => {
+    // Given
+    const config = new ConfigService({ TRANSACTION_WRITE_CONCERN: "1" });
+
+    // When & Then
+    expect(loadTransactionDefaults(config)).toEqual({ writeConcern: { w: 1 } });
+  });
+
+  test.each([
+    ["TRANSACTION_MAX_RETRIES", "abc"],
+    ["TRANSACTION_MAX_RETRIES", "-1"],
+    ["TRANSACTION_MAX_COMMIT_TIME_MS", "1.5"],
+    ["TRANSACTION_SLOW_THRESHOLD_MS", "1s"],
+    ["TRANSACTION_WRITE_CONCERN", "all"],
+  ])("should reject an invalid %s of %p", (name, value) => {
+    // Given
+    const config = new ConfigService({ [name]: value });
+
+    // When & Then
+    expect(() => loadTransactionDefaults(config)).toThrow(
+      `${name} must be a non-negative integer`,
+    );
+  });
+});
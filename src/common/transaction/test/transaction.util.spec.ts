@@ -1,9 +1,13 @@
-import { Connection } from "mongoose";
+import { Connection, mongo } from "mongoose";
 import { MongoMemoryServer } from "mongodb-memory-server";
 import { Test, TestingModule } from "@nestjs/testing";
 import { getConnectionToken, MongooseModule } from "@nestjs/mongoose";
 import { TransactionContextStorage } from "../transaction.context";
 import { withTransaction } from "../transaction.util";
+import { Propagation } from "../transaction.options";
+import { IllegalTransactionStateError } from "../transaction.errors";
+import { TransactionMetrics } from "../transaction.metrics";
+import { Logger } from "@nestjs/common";
 
 describe("withTransaction", () => {
   let mongod: MongoMemoryServer;
@@ -140,14 +144,19 @@ describe("withTransaction", () => {
         const outerSession = storage.getSession();
         expect(outerSession).toBeDefined();
 
-        // 내부 트랜잭션 실행
-        const innerResult = await withTransaction(mongoConnection, storage, async () => {
-          const innerSession = storage.getSession();
-          expect(innerSession).toBeDefined();
-          // 새로운 세션이어야 함
-          expect(innerSession).not.toBe(outerSession);
-          return "inner result";
-        });
+        // REQUIRES_NEW로 내부 트랜잭션 실행
+        const innerResult = await withTransaction(
+          mongoConnection,
+          storage,
+          async () => {
+            const innerSession = storage.getSession();
+            expect(innerSession).toBeDefined();
+            // 새로운 세션이어야 함
+            expect(innerSession).not.toBe(outerSession);
+            return "inner result";
+          },
+          { propagation: Propagation.REQUIRES_NEW },
+        );
 
         // 외부 트랜잭션으로 돌아왔을 때 원래 세션이 복원되어야 함
         expect(storage.getSession()).toBe(outerSession);
@@ -185,6 +194,564 @@ describe("withTransaction", () => {
     });
   });
 
+  describe("propagation", () => {
+    test("REQUIRED should join the outer transaction by default", async () => {
+      // Given: 외부 트랜잭션 안에서 기본 옵션으로 호출
+      let outerSession: any = null;
+      let innerSession: any = null;
+
+      // When
+      await withTransaction(mongoConnection, storage, async () => {
+        outerSession = storage.getSession();
+        await withTransaction(mongoConnection, storage, async () => {
+          innerSession = storage.getSession();
+        });
+      });
+
+      // Then: 같은 세션을 사용해야 함
+      expect(innerSession).toBeDefined();
+      expect(innerSession).toBe(outerSession);
+    });
+
+    test("REQUIRED should start a new transaction when none is active", async () => {
+      // Given
+      const mockFn = jest.fn().mockImplementation(async () => {
+        return storage.getSession()?.inTransaction();
+      });
+
+      // When
+      const result = await withTransaction(mongoConnection, storage, mockFn, {
+        propagation: Propagation.REQUIRED,
+      });
+
+      // Then
+      expect(result).toBe(true);
+    });
+
+    test("SUPPORTS should run without a session when no transaction is active", async () => {
+      // When
+      const session = await withTransaction(
+        mongoConnection,
+        storage,
+        async () => storage.getSession(),
+        { propagation: Propagation.SUPPORTS },
+      );
+
+      // Then
+      expect(session).toBeUndefined();
+    });
+
+    test("SUPPORTS should join an active transaction", async () => {
+      // When
+      const [outerSession, innerSession] = await withTransaction(
+        mongoConnection,
+        storage,
+        async () =>
+          Promise.all([
+            storage.getSession(),
+            withTransaction(mongoConnection, storage, async () => storage.getSession(), {
+              propagation: Propagation.SUPPORTS,
+            }),
+          ]),
+      );
+
+      // Then
+      expect(innerSession).toBe(outerSession);
+    });
+
+    test("MANDATORY should throw when no transaction is active", async () => {
+      // Given
+      const mockFn = jest.fn();
+
+      // When & Then
+      await expect(
+        withTransaction(mongoConnection, storage, mockFn, {
+          propagation: Propagation.MANDATORY,
+        }),
+      ).rejects.toThrow(IllegalTransactionStateError);
+      expect(mockFn).not.toHaveBeenCalled();
+    });
+
+    test("MANDATORY should join an active transaction", async () => {
+      // When
+      const result = await withTransaction(mongoConnection, storage, async () => {
+        const outerSession = storage.getSession();
+        return withTransaction(
+          mongoConnection,
+          storage,
+          async () => storage.getSession() === outerSession,
+          { propagation: Propagation.MANDATORY },
+        );
+      });
+
+      // Then
+      expect(result).toBe(true);
+    });
+
+    test("NEVER should throw when a transaction is active", async () => {
+      // Given
+      const mockFn = jest.fn();
+
+      // When & Then
+      await expect(
+        withTransaction(mongoConnection, storage, async () =>
+          withTransaction(mongoConnection, storage, mockFn, {
+            propagation: Propagation.NEVER,
+          }),
+        ),
+      ).rejects.toThrow(IllegalTransactionStateError);
+      expect(mockFn).not.toHaveBeenCalled();
+    });
+
+    test("NEVER should run without a session when no transaction is active", async () => {
+      // When
+      const session = await withTransaction(
+        mongoConnection,
+        storage,
+        async () => storage.getSession(),
+        { propagation: Propagation.NEVER },
+      );
+
+      // Then
+      expect(session).toBeUndefined();
+    });
+  });
+
+  describe("transaction options and retries", () => {
+    // 라벨이 붙은 드라이버 에러를 만든다
+    const labeledError = (label: string) => {
+      const error = new mongo.MongoError(label);
+      error.addErrorLabel(label);
+      return error;
+    };
+
+    const createMockSession = () => ({
+      startTransaction: jest.fn(),
+      abortTransaction: jest.fn().mockResolvedValue(undefined),
+      commitTransaction: jest.fn().mockResolvedValue(undefined),
+      endSession: jest.fn().mockResolvedValue(undefined),
+      inTransaction: jest.fn().mockReturnValue(true),
+    });
+
+    let mockSession: ReturnType<typeof createMockSession>;
+    let mockConnection: Connection;
+
+    beforeEach(() => {
+      mockSession = createMockSession();
+      mockConnection = {
+        startSession: jest.fn().mockResolvedValue(mockSession),
+      } as unknown as Connection;
+    });
+
+    test("should pass concern, read preference and commit timeout to the driver", async () => {
+      // When
+      await withTransaction(mockConnection, storage, jest.fn().mockResolvedValue(1), {
+        readConcern: "snapshot",
+        writeConcern: { w: "majority" },
+        readPreference: "primary",
+        maxCommitTimeMS: 500,
+      });
+
+      // Then
+      expect(mockSession.startTransaction).toHaveBeenCalledWith({
+        readConcern: { level: "snapshot" },
+        writeConcern: { w: "majority" },
+        readPreference: "primary",
+        maxCommitTimeMS: 500,
+      });
+    });
+
+    test("should retry the whole transaction on TransientTransactionError", async () => {
+      // Given: 첫 시도에서 일시적 오류
+      const mockFn = jest
+        .fn()
+        .mockRejectedValueOnce(labeledError("TransientTransactionError"))
+        .mockResolvedValue("retried");
+
+      // When
+      const result = await withTransaction(mockConnection, storage, mockFn);
+
+      // Then
+      expect(result).toBe("retried");
+      expect(mockFn).toHaveBeenCalledTimes(2);
+      expect(mockSession.abortTransaction).toHaveBeenCalledTimes(1);
+      expect(mockSession.commitTransaction).toHaveBeenCalledTimes(1);
+      expect(mockSession.endSession).toHaveBeenCalledTimes(1);
+    });
+
+    test("should retry when the labelled error is the cause of a domain error", async () => {
+      // Given: 레이블이 붙은 오류를 원인으로 감싼 예외
+      const conflict = new Error("conflict", {
+        cause: labeledError("TransientTransactionError"),
+      });
+      const mockFn = jest
+        .fn()
+        .mockRejectedValueOnce(conflict)
+        .mockResolvedValue("retried");
+
+      // When
+      const result = await withTransaction(mockConnection, storage, mockFn);
+
+      // Then
+      expect(result).toBe("retried");
+      expect(mockFn).toHaveBeenCalledTimes(2);
+    });
+
+    test("should retry only the commit on UnknownTransactionCommitResult", async () => {
+      // Given
+      mockSession.commitTransaction
+        .mockRejectedValueOnce(labeledError("UnknownTransactionCommitResult"))
+        .mockResolvedValue(undefined);
+      const mockFn = jest.fn().mockResolvedValue("committed");
+
+      // When
+      const result = await withTransaction(mockConnection, storage, mockFn);
+
+      // Then
+      expect(result).toBe("committed");
+      expect(mockFn).toHaveBeenCalledTimes(1);
+      expect(mockSession.commitTransaction).toHaveBeenCalledTimes(2);
+    });
+
+    test("should give up after maxRetries", async () => {
+      // Given: 계속 실패하는 함수
+      const mockFn = jest
+        .fn()
+        .mockRejectedValue(labeledError("TransientTransactionError"));
+
+      // When & Then
+      await expect(
+        withTransaction(mockConnection, storage, mockFn, { maxRetries: 2 }),
+      ).rejects.toThrow("TransientTransactionError");
+      expect(mockFn).toHaveBeenCalledTimes(3);
+      expect(mockSession.endSession).toHaveBeenCalledTimes(1);
+    });
+
+    test("should not retry errors without a retryable label", async () => {
+      // Given
+      const mockFn = jest.fn().mockRejectedValue(new Error("business error"));
+
+      // When & Then
+      await expect(withTransaction(mockConnection, storage, mockFn)).rejects.toThrow(
+        "business error",
+      );
+      expect(mockFn).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("transaction hooks", () => {
+    let mockSession: { [key: string]: jest.Mock };
+    let mockConnection: Connection;
+
+    beforeEach(() => {
+      mockSession = {
+        startTransaction: jest.fn(),
+        abortTransaction: jest.fn().mockResolvedValue(undefined),
+        commitTransaction: jest.fn().mockResolvedValue(undefined),
+        endSession: jest.fn().mockResolvedValue(undefined),
+        inTransaction: jest.fn().mockReturnValue(true),
+      };
+      mockConnection = {
+        startSession: jest.fn().mockResolvedValue(mockSession),
+      } as unknown as Connection;
+    });
+
+    test("should run afterCommit and afterCompletion hooks after commit", async () => {
+      // Given
+      const calls: string[] = [];
+      mockSession.commitTransaction.mockImplementation(async () => {
+        calls.push("commit");
+      });
+
+      // When
+      await withTransaction(mockConnection, storage, async () => {
+        await storage.afterCommit(() => {
+          calls.push("afterCommit");
+        });
+        storage.afterRollback(() => {
+          calls.push("afterRollback");
+        });
+        await storage.afterCompletion((status) => {
+          calls.push(`afterCompletion:${status}`);
+        });
+        calls.push("body");
+      });
+
+      // Then: 커밋 이후에만 실행되어야 함
+      expect(calls).toEqual([
+        "body",
+        "commit",
+        "afterCommit",
+        "afterCompletion:COMMITTED",
+      ]);
+    });
+
+    test("should run afterRollback hooks when the transaction fails", async () => {
+      // Given
+      const calls: string[] = [];
+
+      // When
+      await expect(
+        withTransaction(mockConnection, storage, async () => {
+          await storage.afterCommit(() => {
+            calls.push("afterCommit");
+          });
+          storage.afterRollback(() => {
+            calls.push("afterRollback");
+          });
+          await storage.afterCompletion((status) => {
+            calls.push(`afterCompletion:${status}`);
+          });
+          throw new Error("rollback");
+        }),
+      ).rejects.toThrow("rollback");
+
+      // Then
+      expect(calls).toEqual(["afterRollback", "afterCompletion:ROLLED_BACK"]);
+    });
+
+    test("should discard hooks registered by a retried attempt", async () => {
+      // Given: 첫 시도는 일시적 오류
+      const transient = new mongo.MongoError("TransientTransactionError");
+      transient.addErrorLabel("TransientTransactionError");
+      const afterCommit = jest.fn();
+      let attempts = 0;
+
+      // When
+      await withTransaction(mockConnection, storage, async () => {
+        await storage.afterCommit(afterCommit);
+        if (++attempts === 1) {
+          throw transient;
+        }
+      });
+
+      // Then
+      expect(attempts).toBe(2);
+      expect(afterCommit).toHaveBeenCalledTimes(1);
+    });
+
+    test("should register joined hooks on the outer transaction", async () => {
+      // Given
+      const calls: string[] = [];
+
+      // When
+      await withTransaction(mockConnection, storage, async () => {
+        await withTransaction(mockConnection, storage, async () => {
+          await storage.afterCommit(() => {
+            calls.push("inner afterCommit");
+          });
+        });
+        calls.push("outer body");
+      });
+
+      // Then: 외부 트랜잭션 커밋 이후 실행되어야 함
+      expect(calls).toEqual(["outer body", "inner afterCommit"]);
+      expect(mockSession.commitTransaction).toHaveBeenCalledTimes(1);
+    });
+
+    test("should not propagate hook errors", async () => {
+      // Given
+      const nextHook = jest.fn();
+
+      // When
+      const result = await withTransaction(mockConnection, storage, async () => {
+        await storage.afterCommit(() => {
+          throw new Error("hook failed");
+        });
+        await storage.afterCommit(nextHook);
+        return "committed";
+      });
+
+      // Then
+      expect(result).toBe("committed");
+      expect(nextHook).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("transaction metrics", () => {
+    let mockSession: { [key: string]: jest.Mock };
+    let mockConnection: Connection;
+    let metrics: TransactionMetrics;
+
+    beforeEach(() => {
+      mockSession = {
+        startTransaction: jest.fn(),
+        abortTransaction: jest.fn().mockResolvedValue(undefined),
+        commitTransaction: jest.fn().mockResolvedValue(undefined),
+        endSession: jest.fn().mockResolvedValue(undefined),
+        inTransaction: jest.fn().mockReturnValue(true),
+      };
+      mockConnection = {
+        startSession: jest.fn().mockResolvedValue(mockSession),
+      } as unknown as Connection;
+      metrics = new TransactionMetrics();
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    test("should record commits, aborts and retries by label", async () => {
+      // Given
+      const transient = new mongo.MongoError("TransientTransactionError");
+      transient.addErrorLabel("TransientTransactionError");
+      const options = { label: "OrderService.placeOrder" };
+
+      // When
+      await withTransaction(
+        mockConnection,
+        storage,
+        jest.fn().mockRejectedValueOnce(transient).mockResolvedValue("ok"),
+        options,
+        metrics,
+      );
+      await withTransaction(
+        mockConnection,
+        storage,
+        jest.fn().mockRejectedValue(new Error("failed")),
+        options,
+        metrics,
+      ).catch(() => undefined);
+
+      // Then
+      expect(metrics.snapshot()).toEqual([
+        expect.objectContaining({
+          label: "OrderService.placeOrder",
+          count: 2,
+          commits: 1,
+          aborts: 1,
+          retries: 1,
+        }),
+      ]);
+    });
+
+    test("should not record joined transactions separately", async () => {
+      // When
+      await withTransaction(
+        mockConnection,
+        storage,
+        () =>
+          withTransaction(
+            mockConnection,
+            storage,
+            jest.fn(),
+            { label: "inner" },
+            metrics,
+          ),
+        { label: "outer" },
+        metrics,
+      );
+
+      // Then
+      expect(metrics.snapshot().map((m) => m.label)).toEqual(["outer"]);
+    });
+
+    test("should log transactions slower than the threshold", async () => {
+      // Given
+      const warn = jest.spyOn(Logger.prototype, "warn").mockImplementation();
+
+      // When
+      await withTransaction(
+        mockConnection,
+        storage,
+        () => new Promise((resolve) => setTimeout(resolve, 20)),
+        { label: "SlowService.run", slowThresholdMs: 5 },
+        metrics,
+      );
+
+      // Then
+      expect(warn).toHaveBeenCalledWith(
+        expect.stringContaining("Slow transaction SlowService.run"),
+      );
+    });
+  });
+
+  describe("read-only transactions", () => {
+    let mockSession: { [key: string]: jest.Mock };
+    let mockConnection: Connection;
+
+    beforeEach(() => {
+      mockSession = {
+        startTransaction: jest.fn(),
+        endSession: jest.fn().mockResolvedValue(undefined),
+        inTransaction: jest.fn().mockReturnValue(false),
+      };
+      mockConnection = {
+        startSession: jest.fn().mockResolvedValue(mockSession),
+      } as unknown as Connection;
+    });
+
+    test("should run in a snapshot session without starting a transaction", async () => {
+      // When
+      const [session, readOnly] = await withTransaction(
+        mockConnection,
+        storage,
+        async () => [storage.getSession(), storage.isReadOnly()] as const,
+        { readOnly: true },
+      );
+
+      // Then
+      expect(mockConnection.startSession).toHaveBeenCalledWith({ snapshot: true });
+      expect(mockSession.startTransaction).not.toHaveBeenCalled();
+      expect(session).toBe(mockSession);
+      expect(readOnly).toBe(true);
+      expect(mockSession.endSession).toHaveBeenCalledTimes(1);
+    });
+
+    test("should join an active read-only session", async () => {
+      // When
+      await withTransaction(
+        mockConnection,
+        storage,
+        () => withTransaction(mockConnection, storage, jest.fn(), { readOnly: true }),
+        { readOnly: true },
+      );
+
+      // Then
+      expect(mockConnection.startSession).toHaveBeenCalledTimes(1);
+    });
+
+    test("should keep nested REQUIRED calls read-only", async () => {
+      // When
+      const readOnly = await withTransaction(
+        mockConnection,
+        storage,
+        () => withTransaction(mockConnection, storage, async () => storage.isReadOnly()),
+        { readOnly: true },
+      );
+
+      // Then
+      expect(readOnly).toBe(true);
+      expect(mockSession.startTransaction).not.toHaveBeenCalled();
+    });
+
+    test("should make a joined read-write transaction read-only for the callee", async () => {
+      // Given
+      mockSession.inTransaction.mockReturnValue(true);
+      mockSession.abortTransaction = jest.fn();
+      mockSession.commitTransaction = jest.fn().mockResolvedValue(undefined);
+
+      // When
+      const [outerReadOnly, innerReadOnly] = await withTransaction(
+        mockConnection,
+        storage,
+        async () => {
+          const inner = await withTransaction(
+            mockConnection,
+            storage,
+            async () => storage.isReadOnly(),
+            { readOnly: true },
+          );
+          return [storage.isReadOnly(), inner];
+        },
+      );
+
+      // Then
+      expect(outerReadOnly).toBe(false);
+      expect(innerReadOnly).toBe(true);
+    });
+  });
+
   describe("concurrent transactions", () => {
     test("should handle multiple concurrent transactions", async () => {
       // Given: 여러 개의 동시 트랜잭션
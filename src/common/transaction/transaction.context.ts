@@ -1,20 +1,169 @@
-import { Injectable } from "@nestjs/common";
+import { Injectable, Logger } from "@nestjs/common";
 import { AsyncLocalStorage } from "async_hooks";
 import { ClientSession } from "mongoose";
 
+export type TransactionStatus = "COMMITTED" | "ROLLED_BACK";
+
+export type TransactionHook = () => void | Promise<void>;
+export type TransactionCompletionHook = (
+  status: TransactionStatus,
+) => void | Promise<void>;
+
+export interface TransactionHooks {
+  afterCommit: TransactionHook[];
+  afterRollback: TransactionHook[];
+  afterCompletion: TransactionCompletionHook[];
+}
+
+// 중첩 작업 단위(unit of work)가 버퍼링한 쓰기 작업
+export interface UnitOfWork {
+  operations: Array<() => Promise<unknown>>;
+}
+
+// 요청 단위 메타데이터. 미들웨어가 채우고 서비스/레포지토리에서 읽는다
+export interface RequestContext {
+  requestId: string;
+  userId?: string;
+  tenantId?: string;
+  locale?: string;
+}
+
 export interface TransactionContext {
+  request?: RequestContext;
   session?: ClientSession;
+  hooks?: TransactionHooks;
+  unitOfWork?: UnitOfWork;
+  readOnly?: boolean;
 }
 
 @Injectable()
 export class TransactionContextStorage {
+  private readonly logger = new Logger(TransactionContextStorage.name);
   private readonly contextStorage = new AsyncLocalStorage<TransactionContext>();
 
+  // 새 세션으로 실행하더라도 요청 컨텍스트는 바깥에서 이어받는다
   run<T>(context: TransactionContext, callback: () => Promise<T>): Promise<T> {
-    return this.contextStorage.run(context, callback);
+    const request = this.contextStorage.getStore()?.request;
+    return this.contextStorage.run({ request, ...context }, callback);
+  }
+
+  runWithRequestContext<T>(request: RequestContext, callback: () => T): T {
+    return this.contextStorage.run(
+      { ...this.contextStorage.getStore(), request },
+      callback,
+    );
+  }
+
+  getRequestContext(): RequestContext | undefined {
+    return this.contextStorage.getStore()?.request;
   }
 
   getSession(): ClientSession | undefined {
     return this.contextStorage.getStore()?.session;
   }
+
+  isReadOnly(): boolean {
+    return this.contextStorage.getStore()?.readOnly ?? false;
+  }
+
+  // 현재 세션을 유지한 채 쓰기만 막는다
+  runReadOnly<T>(callback: () => Promise<T>): Promise<T> {
+    return this.contextStorage.run(
+      { ...this.contextStorage.getStore(), readOnly: true },
+      callback,
+    );
+  }
+
+  /**
+   * 세이브포인트 대용. fn 안에서 BaseRepository의 공통 쓰기 메서드는 실행되지 않고 버퍼링되며,
+   * fn이 성공하면 바깥 세션으로 순서대로 반영되고 실패하면 버려진 뒤 에러가 그대로 전파된다.
+   * 중첩된 경우 성공한 작업은 바깥 작업 단위의 버퍼로 합쳐진다.
+   *
+   * 제약 사항
+   * - 모델을 직접 사용하는 도메인 메서드(예: PointBalanceRepository.usePoint)는 버퍼링되지 않는다
+   * - 버퍼링된 쓰기는 fn 안의 조회 결과에 보이지 않는다
+   * - 공통 쓰기 메서드는 잠정 결과를 반환한다 (create: 저장 전 문서, update/delete 단건: null,
+   *   updateMany/deleteMany: acknowledged가 false인 결과)
+   * - 반영 도중 실패하면 앞서 반영된 쓰기는 바깥 세션에 남으므로 바깥 트랜잭션을 롤백해야 한다
+   */
+  async runUnitOfWork<T>(fn: () => Promise<T>): Promise<T> {
+    const context = this.contextStorage.getStore();
+    const unitOfWork: UnitOfWork = { operations: [] };
+    const result = await this.contextStorage.run({ ...context, unitOfWork }, fn);
+
+    const parent = context?.unitOfWork;
+    if (parent) {
+      parent.operations.push(...unitOfWork.operations);
+      return result;
+    }
+    for (const operation of unitOfWork.operations) {
+      await operation();
+    }
+    return result;
+  }
+
+  // 작업 단위 안이면 쓰기 작업을 버퍼에 넣고 true를 반환한다
+  deferWrite(operation: () => Promise<unknown>): boolean {
+    const unitOfWork = this.contextStorage.getStore()?.unitOfWork;
+    if (!unitOfWork) {
+      return false;
+    }
+    unitOfWork.operations.push(operation);
+    return true;
+  }
+
+  // 트랜잭션이 없으면 이미 반영된 것이므로 즉시 실행한다
+  async afterCommit(hook: TransactionHook): Promise<void> {
+    const hooks = this.getActiveHooks();
+    if (hooks) {
+      hooks.afterCommit.push(hook);
+      return;
+    }
+    await this.runHook("afterCommit", hook);
+  }
+
+  // 트랜잭션이 없으면 롤백될 일도 없으므로 무시한다
+  afterRollback(hook: TransactionHook): void {
+    this.getActiveHooks()?.afterRollback.push(hook);
+  }
+
+  async afterCompletion(hook: TransactionCompletionHook): Promise<void> {
+    const hooks = this.getActiveHooks();
+    if (hooks) {
+      hooks.afterCompletion.push(hook);
+      return;
+    }
+    await this.runHook("afterCompletion", () => hook("COMMITTED"));
+  }
+
+  // 트랜잭션 종료 후 등록 순서대로 실행. 결과는 이미 확정되었으므로 훅 에러는 로그만 남긴다
+  async runHooks(hooks: TransactionHooks, status: TransactionStatus): Promise<void> {
+    const statusHooks = status === "COMMITTED" ? hooks.afterCommit : hooks.afterRollback;
+    const phase = status === "COMMITTED" ? "afterCommit" : "afterRollback";
+    for (const hook of statusHooks) {
+      await this.runHook(phase, hook);
+    }
+    for (const hook of hooks.afterCompletion) {
+      await this.runHook("afterCompletion", () => hook(status));
+    }
+  }
+
+  ///// private //////
+
+  private getActiveHooks(): TransactionHooks | undefined {
+    const context = this.contextStorage.getStore();
+    return context?.session?.inTransaction() ? context.hooks : undefined;
+  }
+
+  private async runHook(phase: string, hook: TransactionHook): Promise<void> {
+    try {
+      await hook();
+    } catch (error) {
+      this.logger.error(`Transaction ${phase} hook failed`, error);
+    }
+  }
+}
+
+export function createTransactionHooks(): TransactionHooks {
+  return { afterCommit: [], afterRollback: [], afterCompletion: [] };
 }
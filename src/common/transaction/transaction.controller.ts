@@ -0,0 +1,12 @@
+import { Controller, Get } from "@nestjs/common";
+import { TransactionLabelMetrics, TransactionMetrics } from "./transaction.metrics";
+
+@Controller("admin/transactions")
+export class TransactionMetricsController {
+  constructor(private readonly transactionMetrics: TransactionMetrics) {}
+
+  @Get("metrics")
+  getMetrics(): TransactionLabelMetrics[] {
+    return this.transactionMetrics.snapshot();
+  }
+}
@@ -0,0 +1,30 @@
+import { mongo } from "mongoose";
+import { Propagation } from "./transaction.options";
+
+export const TRANSIENT_TRANSACTION_ERROR = "TransientTransactionError";
+export const UNKNOWN_COMMIT_RESULT = "UnknownTransactionCommitResult";
+
+// 전파 방식과 현재 트랜잭션 상태가 맞지 않을 때
+export class IllegalTransactionStateError extends Error {
+  constructor(propagation: Propagation, message: string) {
+    super(`[${propagation}] ${message}`);
+    this.name = IllegalTransactionStateError.name;
+  }
+}
+
+// 읽기 전용 트랜잭션 안에서 쓰기를 시도했을 때
+export class ReadOnlyTransactionError extends Error {
+  constructor(modelName: string) {
+    super(`Write operation on "${modelName}" is not allowed in a read-only transaction`);
+    this.name = ReadOnlyTransactionError.name;
+  }
+}
+
+// 트랜잭션을 다시 시도하면 성공할 수 있음을 나타내는 레이블이 붙은 오류
+export function isRetryableTransactionError(error: unknown): boolean {
+  return (
+    error instanceof mongo.MongoError &&
+    (error.hasErrorLabel(TRANSIENT_TRANSACTION_ERROR) ||
+      error.hasErrorLabel(UNKNOWN_COMMIT_RESULT))
+  );
+}
@@ -0,0 +1,69 @@
+import { Injectable, OnModuleInit } from "@nestjs/common";
+import { ModuleRef } from "@nestjs/core";
+import { ConfigService } from "@nestjs/config";
+import { getConnectionToken } from "@nestjs/mongoose";
+import { Connection } from "mongoose";
+import { TransactionContextStorage } from "./transaction.context";
+import { loadTransactionDefaults, TransactionOptions } from "./transaction.options";
+import { withTransaction } from "./transaction.util";
+import { TransactionMetrics } from "./transaction.metrics";
+
+// @Transactional이 사용하는 트랜잭션 실행기. 이름별 Mongoose 연결을 DI에서 찾는다
+@Injectable()
+export class TransactionManager implements OnModuleInit {
+  private readonly connections = new Map<string, Connection>();
+  private defaults?: TransactionOptions;
+
+  constructor(
+    private readonly moduleRef: ModuleRef,
+    private readonly storage: TransactionContextStorage,
+    private readonly metrics: TransactionMetrics,
+  ) {}
+
+  // 잘못된 환경 변수는 첫 트랜잭션이 아니라 애플리케이션 시작 시점에 드러나게 한다
+  onModuleInit(): void {
+    this.getDefaults();
+  }
+
+  run<T>(fn: () => Promise<T>, options: TransactionOptions = {}): Promise<T> {
+    const { connectionName, ...transactionOptions } = options;
+    return withTransaction(
+      this.getConnection(connectionName),
+      this.storage,
+      fn,
+      { ...this.getDefaults(), ...transactionOptions },
+      this.metrics,
+    );
+  }
+
+  private getConnection(connectionName?: string): Connection {
+    const token = getConnectionToken(connectionName);
+    let connection = this.connections.get(token);
+    if (!connection) {
+      connection = this.resolve<Connection>(token);
+      if (!connection) {
+        throw new Error(
+          `[@Transactional] Unable to resolve connection "${token}" from DI`,
+        );
+      }
+      this.connections.set(token, connection);
+    }
+    return connection;
+  }
+
+  // ConfigModule을 사용하지 않는 환경(테스트 등)에서는 전역 기본값 없이 동작한다
+  private getDefaults(): TransactionOptions {
+    this.defaults ??= loadTransactionDefaults(this.resolve(ConfigService));
+    return this.defaults;
+  }
+
+  private resolve<R>(
+    token: string | (abstract new (...args: any[]) => R),
+  ): R | undefined {
+    try {
+      return this.moduleRef.get<R>(token, { strict: false }) ?? undefined;
+    } catch {
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,69 @@
+import { Injectable } from "@nestjs/common";
+import { TransactionStatus } from "./transaction.context";
+
+export interface TransactionRecord {
+  label: string;
+  status: TransactionStatus;
+  durationMs: number;
+  retries: number;
+}
+
+export interface TransactionLabelMetrics {
+  label: string;
+  count: number;
+  commits: number;
+  aborts: number;
+  retries: number;
+  totalDurationMs: number;
+  avgDurationMs: number;
+  maxDurationMs: number;
+  lastDurationMs: number;
+}
+
+// 라벨("클래스.메서드")별 트랜잭션 실행 통계. 프로세스 메모리에만 유지된다
+@Injectable()
+export class TransactionMetrics {
+  private readonly metrics = new Map<string, TransactionLabelMetrics>();
+
+  record({ label, status, durationMs, retries }: TransactionRecord): void {
+    const metrics = this.metrics.get(label) ?? this.createMetrics(label);
+    metrics.count++;
+    if (status === "COMMITTED") {
+      metrics.commits++;
+    } else {
+      metrics.aborts++;
+    }
+    metrics.retries += retries;
+    metrics.totalDurationMs += durationMs;
+    metrics.avgDurationMs = metrics.totalDurationMs / metrics.count;
+    metrics.maxDurationMs = Math.max(metrics.maxDurationMs, durationMs);
+    metrics.lastDurationMs = durationMs;
+    this.metrics.set(label, metrics);
+  }
+
+  snapshot(): TransactionLabelMetrics[] {
+    return [...this.metrics.values()]
+      .map((metrics) => ({ ...metrics }))
+      .sort((a, b) => a.label.localeCompare(b.label));
+  }
+
+  reset(): void {
+    this.metrics.clear();
+  }
+
+  ///// private //////
+
+  private createMetrics(label: string): TransactionLabelMetrics {
+    return {
+      label,
+      count: 0,
+      commits: 0,
+      aborts: 0,
+      retries: 0,
+      totalDurationMs: 0,
+      avgDurationMs: 0,
+      maxDurationMs: 0,
+      lastDurationMs: 0,
+    };
+  }
+}
@@ -0,0 +1,19 @@
+import { DynamicModule, Module } from "@nestjs/common";
+import { TransactionContextStorage } from "./transaction.context";
+import { TransactionManager } from "./transaction.manager";
+import { TransactionMetrics } from "./transaction.metrics";
+import { TransactionMetricsController } from "./transaction.controller";
+
+// 루트 모듈에서 한 번 등록하면 모든 provider에서 @Transactional을 사용할 수 있다
+@Module({})
+export class TransactionModule {
+  static forRoot(): DynamicModule {
+    return {
+      module: TransactionModule,
+      global: true,
+      providers: [TransactionContextStorage, TransactionManager, TransactionMetrics],
+      exports: [TransactionContextStorage, TransactionManager, TransactionMetrics],
+      controllers: [TransactionMetricsController],
+    };
+  }
+}
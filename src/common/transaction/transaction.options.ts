@@ -0,0 +1,90 @@
+import { ConfigService } from "@nestjs/config";
+import { mongo } from "mongoose";
+
+// Spring의 트랜잭션 전파 방식과 동일한 의미를 가진다
+export enum Propagation {
+  // 진행 중인 트랜잭션에 참여하고, 없으면 새로 시작 (기본값)
+  REQUIRED = "REQUIRED",
+  // 진행 중인 트랜잭션과 무관하게 항상 새 세션으로 시작
+  REQUIRES_NEW = "REQUIRES_NEW",
+  // 진행 중인 트랜잭션이 있으면 참여하고, 없으면 트랜잭션 없이 실행
+  SUPPORTS = "SUPPORTS",
+  // 진행 중인 트랜잭션이 없으면 예외
+  MANDATORY = "MANDATORY",
+  // 진행 중인 트랜잭션이 있으면 예외
+  NEVER = "NEVER",
+}
+
+export interface TransactionOptions {
+  propagation?: Propagation;
+  // 여러 Mongoose 연결을 사용할 때 대상 연결 이름 (기본 연결이면 생략)
+  connectionName?: string;
+  readConcern?: mongo.ReadConcernLevel;
+  writeConcern?: mongo.WriteConcernSettings;
+  readPreference?: mongo.ReadPreferenceMode;
+  maxCommitTimeMS?: number;
+  // TransientTransactionError, UnknownTransactionCommitResult 발생 시 재시도 횟수
+  maxRetries?: number;
+  // 트랜잭션 대신 스냅샷 읽기 세션을 사용하고 BaseRepository의 쓰기를 막는다
+  readOnly?: boolean;
+  // 이 시간(ms)보다 오래 걸린 트랜잭션은 경고 로그를 남긴다
+  slowThresholdMs?: number;
+  // 메트릭 집계 단위. @Transactional은 "클래스.메서드"를 사용한다
+  label?: string;
+}
+
+export const DEFAULT_TRANSACTION_MAX_RETRIES = 3;
+export const DEFAULT_SLOW_TRANSACTION_THRESHOLD_MS = 1000;
+
+// 환경 변수로 지정한 전역 기본값. 데코레이터 옵션이 우선한다
+export function loadTransactionDefaults(config?: ConfigService): TransactionOptions {
+  if (!config) {
+    return {};
+  }
+
+  const defaults: TransactionOptions = {};
+  const readConcern = config.get<mongo.ReadConcernLevel>("TRANSACTION_READ_CONCERN");
+  const writeConcern = config.get<string>("TRANSACTION_WRITE_CONCERN");
+  const readPreference = config.get<mongo.ReadPreferenceMode>(
+    "TRANSACTION_READ_PREFERENCE",
+  );
+  const maxCommitTimeMS = config.get<string>("TRANSACTION_MAX_COMMIT_TIME_MS");
+  const maxRetries = config.get<string>("TRANSACTION_MAX_RETRIES");
+  const slowThresholdMs = config.get<string>("TRANSACTION_SLOW_THRESHOLD_MS");
+
+  if (readConcern) defaults.readConcern = readConcern;
+  if (writeConcern) {
+    // "majority" 또는 숫자(w: 1 등)
+    defaults.writeConcern = {
+      w:
+        writeConcern === "majority"
+          ? writeConcern
+          : parseNonNegativeInteger("TRANSACTION_WRITE_CONCERN", writeConcern),
+    };
+  }
+  if (readPreference) defaults.readPreference = readPreference;
+  if (maxCommitTimeMS) {
+    defaults.maxCommitTimeMS = parseNonNegativeInteger(
+      "TRANSACTION_MAX_COMMIT_TIME_MS",
+      maxCommitTimeMS,
+    );
+  }
+  if (maxRetries) {
+    defaults.maxRetries = parseNonNegativeInteger("TRANSACTION_MAX_RETRIES", maxRetries);
+  }
+  if (slowThresholdMs) {
+    defaults.slowThresholdMs = parseNonNegativeInteger(
+      "TRANSACTION_SLOW_THRESHOLD_MS",
+      slowThresholdMs,
+    );
+  }
+  return defaults;
+}
+
+// 잘못된 값(NaN 등)으로 재시도가 끝나지 않는 일이 없도록 시작할 때 바로 실패시킨다
+function parseNonNegativeInteger(name: string, value: string): number {
+  if (!/^\d+$/.test(value.trim())) {
+    throw new Error(`${name} must be a non-negative integer, got "${value}"`);
+  }
+  return Number(value);
+}
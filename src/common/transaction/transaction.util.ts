@@ -1,18 +1,224 @@
-import { Connection } from "mongoose";
-import { TransactionContextStorage } from "./transaction.context";
+import { Logger } from "@nestjs/common";
+import { ClientSession, Connection, mongo } from "mongoose";
+import {
+  createTransactionHooks,
+  TransactionContextStorage,
+  TransactionHooks,
+  TransactionStatus,
+} from "./transaction.context";
+import {
+  DEFAULT_SLOW_TRANSACTION_THRESHOLD_MS,
+  DEFAULT_TRANSACTION_MAX_RETRIES,
+  Propagation,
+  TransactionOptions,
+} from "./transaction.options";
+import {
+  IllegalTransactionStateError,
+  TRANSIENT_TRANSACTION_ERROR,
+  UNKNOWN_COMMIT_RESULT,
+} from "./transaction.errors";
+import { TransactionMetrics } from "./transaction.metrics";
+
+const DEFAULT_LABEL = "withTransaction";
+
+const logger = new Logger("Transaction");
 
 export async function withTransaction<T>(
   connection: Connection,
   storage: TransactionContextStorage,
   fn: () => Promise<T>,
+  options: TransactionOptions = {},
+  metrics?: TransactionMetrics,
+): Promise<T> {
+  const propagation = options.propagation ?? Propagation.REQUIRED;
+  // 읽기 전용 세션도 참여 가능한 진행 중 트랜잭션으로 본다
+  const active = (storage.getSession()?.inTransaction() ?? false) || storage.isReadOnly();
+  const join = () => (options.readOnly ? storage.runReadOnly(fn) : fn());
+  const begin = () =>
+    options.readOnly
+      ? startReadOnlySession(connection, storage, fn, options, metrics)
+      : startTransaction(connection, storage, fn, options, metrics);
+
+  switch (propagation) {
+    case Propagation.REQUIRED:
+      // 이미 같은 컨텍스트에 세션이 있으므로 그대로 실행하면 참여하게 된다
+      return active ? join() : begin();
+    case Propagation.REQUIRES_NEW:
+      return begin();
+    case Propagation.SUPPORTS:
+      return join();
+    case Propagation.MANDATORY:
+      if (!active) {
+        throw new IllegalTransactionStateError(
+          propagation,
+          "No existing transaction found",
+        );
+      }
+      return join();
+    case Propagation.NEVER:
+      if (active) {
+        throw new IllegalTransactionStateError(propagation, "Existing transaction found");
+      }
+      return join();
+  }
+}
+
+// session.withTransaction 대신 직접 재시도 루프를 돌려 횟수 제한과 로그를 남긴다
+async function startTransaction<T>(
+  connection: Connection,
+  storage: TransactionContextStorage,
+  fn: () => Promise<T>,
+  options: TransactionOptions,
+  metrics?: TransactionMetrics,
 ): Promise<T> {
+  const label = options.label ?? DEFAULT_LABEL;
+  const maxRetries = options.maxRetries ?? DEFAULT_TRANSACTION_MAX_RETRIES;
+  const startedAt = Date.now();
+  let retries = 0;
+
+  const complete = async (hooks: TransactionHooks, status: TransactionStatus) => {
+    recordCompletion(label, status, startedAt, retries, options, metrics);
+    await storage.runHooks(hooks, status);
+  };
+
   const session = await connection.startSession();
   try {
-    const result = await session.withTransaction(async () => {
-      return storage.run({ session }, fn);
-    });
+    for (let attempt = 1; ; attempt++) {
+      // 재시도 시 fn이 다시 등록하므로 시도마다 새 훅 목록을 사용한다
+      const hooks = createTransactionHooks();
+      session.startTransaction(toDriverOptions(options));
+
+      let result: T;
+      try {
+        result = await storage.run({ session, hooks }, fn);
+      } catch (error) {
+        await session.abortTransaction();
+        if (shouldRetry(error, TRANSIENT_TRANSACTION_ERROR, label, attempt, maxRetries)) {
+          retries++;
+          continue;
+        }
+        await complete(hooks, "ROLLED_BACK");
+        throw error;
+      }
+
+      try {
+        retries += await commitWithRetry(session, label, maxRetries);
+      } catch (error) {
+        if (shouldRetry(error, TRANSIENT_TRANSACTION_ERROR, label, attempt, maxRetries)) {
+          retries++;
+          continue;
+        }
+        await complete(hooks, "ROLLED_BACK");
+        throw error;
+      }
+
+      await complete(hooks, "COMMITTED");
+      return result;
+    }
+  } finally {
+    await session.endSession();
+  }
+}
+
+// 트랜잭션 없이 스냅샷 세션으로 여러 컬렉션을 같은 시점 기준으로 읽는다
+async function startReadOnlySession<T>(
+  connection: Connection,
+  storage: TransactionContextStorage,
+  fn: () => Promise<T>,
+  options: TransactionOptions,
+  metrics?: TransactionMetrics,
+): Promise<T> {
+  const label = options.label ?? DEFAULT_LABEL;
+  const startedAt = Date.now();
+  const session = await connection.startSession({ snapshot: true });
+  try {
+    const result = await storage.run({ session, readOnly: true }, fn);
+    recordCompletion(label, "COMMITTED", startedAt, 0, options, metrics);
     return result;
+  } catch (error) {
+    recordCompletion(label, "ROLLED_BACK", startedAt, 0, options, metrics);
+    throw error;
   } finally {
-    session.endSession();
+    await session.endSession();
+  }
+}
+
+// 재시도를 포함한 전체 소요 시간을 기록한다
+function recordCompletion(
+  label: string,
+  status: TransactionStatus,
+  startedAt: number,
+  retries: number,
+  options: TransactionOptions,
+  metrics?: TransactionMetrics,
+) {
+  const durationMs = Date.now() - startedAt;
+  metrics?.record({ label, status, durationMs, retries });
+  const slowThresholdMs =
+    options.slowThresholdMs ?? DEFAULT_SLOW_TRANSACTION_THRESHOLD_MS;
+  if (durationMs > slowThresholdMs) {
+    logger.warn(
+      `Slow transaction ${label}: ${durationMs}ms (${status}, retries: ${retries})`,
+    );
+  }
+}
+
+// 커밋 결과를 알 수 없는 경우 트랜잭션 전체가 아니라 커밋만 다시 시도한다. 재시도 횟수를 반환
+async function commitWithRetry(
+  session: ClientSession,
+  label: string,
+  maxRetries: number,
+): Promise<number> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      await session.commitTransaction();
+      return attempt - 1;
+    } catch (error) {
+      if (!shouldRetry(error, UNKNOWN_COMMIT_RESULT, label, attempt, maxRetries)) {
+        throw error;
+      }
+    }
   }
 }
+
+function shouldRetry(
+  error: unknown,
+  errorLabel: string,
+  label: string,
+  attempt: number,
+  maxRetries: number,
+): boolean {
+  if (!hasErrorLabel(error, errorLabel)) {
+    return false;
+  }
+  if (attempt > maxRetries) {
+    logger.error(
+      `${label} ${errorLabel}: giving up after ${maxRetries} retries (${error.message})`,
+    );
+    return false;
+  }
+  logger.warn(
+    `${label} ${errorLabel}: retrying (${attempt}/${maxRetries}) - ${error.message}`,
+  );
+  return true;
+}
+
+// 도메인 예외로 바뀐 오류도 원인(cause)에 레이블이 있으면 재시도 대상으로 본다
+function hasErrorLabel(error: unknown, errorLabel: string): error is Error {
+  for (let current = error; current instanceof Error; current = current.cause) {
+    if (current instanceof mongo.MongoError && current.hasErrorLabel(errorLabel)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function toDriverOptions(options: TransactionOptions): mongo.TransactionOptions {
+  const { readConcern, writeConcern, readPreference, maxCommitTimeMS } = options;
+  return {
+    ...(readConcern && { readConcern: { level: readConcern } }),
+    ...(writeConcern && { writeConcern }),
+    ...(readPreference && { readPreference }),
+    ...(maxCommitTimeMS !== undefined && { maxCommitTimeMS }),
+  };
+}
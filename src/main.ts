@@ -1,7 +1,7 @@
-import { ModuleRef, NestFactory } from "@nestjs/core";
+import { NestFactory } from "@nestjs/core";
 import { AppModule } from "./app.module";
 import { ValidationPipe } from "@nestjs/common";
-import { setTransactionModuleRef } from "./common/decorator/transactional.decorator";
+import { AllExceptionsFilter } from "./common/filter/allExceptions.filter";
 
 async function bootstrap() {
   const app = await NestFactory.create(AppModule, { logger: ["debug"] });
@@ -11,7 +11,7 @@ async function bootstrap() {
       whitelist: true,
     }),
   );
-  setTransactionModuleRef(app.get(ModuleRef));
+  app.useGlobalFilters(new AllExceptionsFilter());
   await app.listen(process.env.PORT ?? 3000);
 }
 bootstrap();
@@ -6,11 +6,17 @@ import { PointsService } from "../service/point.service";
 import { PointsController } from "./point.controller";
 import { PointBalanceRepository } from "../repository/pointBalance.repository";
 import { PointBalance, PointBalanceSchema } from "../schema/pointBalance.schema";
-import { Point, PointSchema } from "../schema/point.schema";
-import { TransactionContextStorage } from "../../common/transaction/transaction.context";
+import { Point, PointSchema, PointType } from "../schema/point.schema";
+import { TransactionModule } from "../../common/transaction/transaction.module";
+import { LockModule } from "../../common/lock/lock.module";
 import { PointRepository } from "../repository/point.repository";
-import { setTransactionModuleRef } from "../../common/decorator/transactional.decorator";
-import { ModuleRef } from "@nestjs/core";
+import {
+  IdempotencyKeyConflictException,
+  InsufficientPointsException,
+  InvalidIdempotencyKeyException,
+  PointBalanceAlreadyExistsException,
+  PointBalanceNotFoundException,
+} from "../exception/point.exception";
 
 describe(PointsController.name, () => {
   let mongod: MongoMemoryReplSet;
@@ -24,6 +30,8 @@ describe(PointsController.name, () => {
     const module: TestingModule = await Test.createTestingModule({
       imports: [
         MongooseModule.forRoot(uri),
+        TransactionModule.forRoot(),
+        LockModule.forRoot(),
         MongooseModule.forFeature([
           {
             name: PointBalance.name,
@@ -35,21 +43,12 @@ describe(PointsController.name, () => {
           },
         ]),
       ],
-      providers: [
-        PointBalanceRepository,
-        PointRepository,
-        PointsService,
-        TransactionContextStorage,
-      ],
+      providers: [PointBalanceRepository, PointRepository, PointsService],
       controllers: [PointsController],
     }).compile();
 
     mongoConnection = module.get<Connection>(getConnectionToken());
     pointsController = module.get<PointsController>(PointsController);
-
-    // @Transactional 데코레이터를 위한 ModuleRef 설정
-    const moduleRef = module.get<ModuleRef>(ModuleRef);
-    setTransactionModuleRef(moduleRef);
   });
 
   afterEach(async () => {
@@ -96,5 +95,225 @@ describe(PointsController.name, () => {
       expect(result).toHaveProperty("usedPoints", 0);
       expect(result).toHaveProperty("expiredPoints", 0);
     });
+    test("should throw PointBalanceAlreadyExistsException when points already exist", async () => {
+      // Given : 이미 포인트가 생성된 userId
+      const userId = new Types.ObjectId().toString();
+      await pointsController.createPoints({ userId });
+
+      // When & Then : 다시 생성하면 409 예외가 발생해야 한다
+      await expect(pointsController.createPoints({ userId })).rejects.toThrow(
+        PointBalanceAlreadyExistsException,
+      );
+    });
+  });
+
+  describe("getPoints", () => {
+    test("should return point balance for a user", async () => {
+      // Given : 포인트가 생성된 userId
+      const userId = new Types.ObjectId().toString();
+      await pointsController.createPoints({ userId, amount: 700 });
+
+      // When : getPoints 호출
+      const result = await pointsController.getPoints({ userId });
+
+      // Then : 생성된 잔액이 반환되어야 한다
+      expect(result).toHaveProperty("userId", userId);
+      expect(result).toHaveProperty("availablePoints", 700);
+    });
+
+    test("should throw PointBalanceNotFoundException when points do not exist", async () => {
+      // Given : 포인트가 없는 userId
+      const userId = new Types.ObjectId().toString();
+
+      // When & Then
+      await expect(pointsController.getPoints({ userId })).rejects.toThrow(
+        PointBalanceNotFoundException,
+      );
+    });
+  });
+
+  describe("getPointHistory", () => {
+    test("should return paginated history for a user", async () => {
+      // Given : 생성 후 적립/사용한 userId
+      const userId = new Types.ObjectId().toString();
+      await pointsController.createPoints({ userId, amount: 1000 });
+      await pointsController.earnPoints({ userId, point: 500 });
+      await pointsController.usePoints({ userId, point: 300 });
+
+      // When : 2건씩 조회
+      const result = await pointsController.getPointHistory({ userId }, { limit: 2 });
+
+      // Then : 최신 원장부터 반환되고 다음 커서가 있어야 한다
+      expect(result.data).toHaveLength(2);
+      expect(result.data[0]).toHaveProperty("type", PointType.USE);
+      expect(result.hasMore).toBe(true);
+      expect(result.nextCursor).toEqual(expect.any(String));
+    });
+  });
+
+  describe("earnPoints", () => {
+    test("should earn points for a user", async () => {
+      // Given : 포인트가 생성된 userId
+      const userId = new Types.ObjectId().toString();
+      await pointsController.createPoints({ userId, amount: 1000 });
+
+      // When : earnPoints 호출
+      const result = await pointsController.earnPoints({ userId, point: 500 });
+
+      // Then : 적립된 포인트가 반영되어야 한다
+      expect(result).toHaveProperty("totalPoints", 1500);
+      expect(result).toHaveProperty("availablePoints", 1500);
+    });
+
+    test("should throw PointBalanceNotFoundException when points do not exist", async () => {
+      // Given : 포인트가 없는 userId
+      const userId = new Types.ObjectId().toString();
+
+      // When & Then
+      await expect(pointsController.earnPoints({ userId, point: 500 })).rejects.toThrow(
+        PointBalanceNotFoundException,
+      );
+    });
+  });
+
+  describe("idempotency", () => {
+    test("should apply earn only once for the same Idempotency-Key", async () => {
+      // Given : 포인트가 생성된 userId
+      const userId = new Types.ObjectId().toString();
+      await pointsController.createPoints({ userId, amount: 1000 });
+
+      // When : 같은 Idempotency-Key로 두 번 호출
+      await pointsController.earnPoints({ userId, point: 500 }, "retry-key");
+      const replayed = await pointsController.earnPoints(
+        { userId, point: 500 },
+        "retry-key",
+      );
+
+      // Then : 한 번만 적립되어야 한다
+      expect(replayed).toHaveProperty("availablePoints", 1500);
+      const balance = await pointsController.getPoints({ userId });
+      expect(balance).toHaveProperty("availablePoints", 1500);
+    });
+
+    test("should throw IdempotencyKeyConflictException when key is reused with different amount", async () => {
+      // Given : referenceId로 적립된 userId
+      const userId = new Types.ObjectId().toString();
+      await pointsController.createPoints({ userId, amount: 1000 });
+      await pointsController.earnPoints({ userId, point: 500, referenceId: "ref-1" });
+
+      // When & Then
+      await expect(
+        pointsController.earnPoints({ userId, point: 300, referenceId: "ref-1" }),
+      ).rejects.toThrow(IdempotencyKeyConflictException);
+    });
+
+    test("should reject an empty or too long Idempotency-Key", async () => {
+      // Given : 포인트가 생성된 userId
+      const userId = new Types.ObjectId().toString();
+      await pointsController.createPoints({ userId, amount: 1000 });
+
+      // When & Then : 서비스를 호출하기 전에 거부되어야 한다
+      await expect(
+        pointsController.earnPoints({ userId, point: 500 }, ""),
+      ).rejects.toThrow(InvalidIdempotencyKeyException);
+      await expect(
+        pointsController.usePoints({ userId, point: 100 }, "k".repeat(129)),
+      ).rejects.toThrow(InvalidIdempotencyKeyException);
+      const balance = await pointsController.getPoints({ userId });
+      expect(balance).toHaveProperty("availablePoints", 1000);
+    });
+  });
+
+  describe("usePoints", () => {
+    test("should use points for a user", async () => {
+      // Given : 포인트가 생성된 userId
+      const userId = new Types.ObjectId().toString();
+      await pointsController.createPoints({ userId, amount: 1000 });
+
+      // When : usePoints 호출
+      const result = await pointsController.usePoints({ userId, point: 300 });
+
+      // Then : 사용된 포인트가 반영되어야 한다
+      expect(result).toHaveProperty("availablePoints", 700);
+      expect(result).toHaveProperty("usedPoints", 300);
+    });
+
+    test("should throw InsufficientPointsException when points are insufficient", async () => {
+      // Given : 포인트가 부족한 userId
+      const userId = new Types.ObjectId().toString();
+      await pointsController.createPoints({ userId, amount: 100 });
+
+      // When & Then
+      await expect(pointsController.usePoints({ userId, point: 300 })).rejects.toThrow(
+        InsufficientPointsException,
+      );
+    });
+  });
+
+  describe("refundPoints", () => {
+    test("should refund a prior usage", async () => {
+      // Given : 포인트를 사용한 userId
+      const userId = new Types.ObjectId().toString();
+      await pointsController.createPoints({ userId, amount: 1000 });
+      await pointsController.usePoints({ userId, point: 300, referenceId: "order-1" });
+
+      // When : refundPoints 호출
+      const result = await pointsController.refundPoints({
+        userId,
+        originalReferenceId: "order-1",
+      });
+
+      // Then : 사용한 포인트가 복구되어야 한다
+      expect(result).toHaveProperty("availablePoints", 1000);
+      expect(result).toHaveProperty("usedPoints", 0);
+    });
+  });
+
+  describe("transferPoints", () => {
+    test("should transfer points between users", async () => {
+      // Given : 포인트가 생성된 두 userId
+      const fromUserId = new Types.ObjectId().toString();
+      const toUserId = new Types.ObjectId().toString();
+      await pointsController.createPoints({ userId: fromUserId, amount: 1000 });
+      await pointsController.createPoints({ userId: toUserId, amount: 1000 });
+
+      // When : transferPoints 호출
+      const result = await pointsController.transferPoints({
+        fromUserId,
+        toUserId,
+        point: 400,
+      });
+
+      // Then : 양쪽 잔액이 함께 반영되어야 한다
+      expect(result.from).toHaveProperty("availablePoints", 600);
+      expect(result.to).toHaveProperty("availablePoints", 1400);
+    });
+  });
+
+  describe("deletePoints", () => {
+    test("should delete points for a user", async () => {
+      // Given : 포인트가 생성된 userId
+      const userId = new Types.ObjectId().toString();
+      await pointsController.createPoints({ userId });
+
+      // When : deletePoints 호출
+      const result = await pointsController.deletePoints({ userId });
+
+      // Then : 삭제된 잔액이 반환되고 더 이상 조회되지 않아야 한다
+      expect(result).toHaveProperty("userId", userId);
+      await expect(pointsController.getPoints({ userId })).rejects.toThrow(
+        PointBalanceNotFoundException,
+      );
+    });
+
+    test("should throw PointBalanceNotFoundException when points do not exist", async () => {
+      // Given : 포인트가 없는 userId
+      const userId = new Types.ObjectId().toString();
+
+      // When & Then
+      await expect(pointsController.deletePoints({ userId })).rejects.toThrow(
+        PointBalanceNotFoundException,
+      );
+    });
   });
 });
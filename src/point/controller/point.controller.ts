@@ -1,7 +1,36 @@
-import { Body, Controller, Post } from "@nestjs/common";
-import { PointsService } from "../service/point.service";
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Headers,
+  Param,
+  Post,
+  Query,
+} from "@nestjs/common";
+import {
+  PointBalanceResult,
+  PointsService,
+  PointTransferResult,
+} from "../service/point.service";
 import { CreatePointsDto } from "../dto/create.point.dto";
+import { AddPointDto } from "../dto/add.point.dto";
+import { UsePointDto } from "../dto/use.point.dto";
+import { TransferPointDto } from "../dto/transfer.point.dto";
+import { RefundPointDto } from "../dto/refund.point.dto";
+import { PointUserParamDto } from "../dto/param.point.dto";
+import { FindPointsDto } from "../dto/find.point.dto";
+import { Point } from "../schema/point.schema";
+import { CursorPage } from "../../common/repository";
 import { PointBalance } from "../schema/pointBalance.schema";
+import {
+  InvalidIdempotencyKeyException,
+  PointBalanceNotFoundException,
+} from "../exception/point.exception";
+
+const IDEMPOTENCY_KEY_HEADER = "idempotency-key";
+// DTO의 referenceId와 같은 최대 길이
+const MAX_IDEMPOTENCY_KEY_LENGTH = 128;
 
 @Controller("points")
 export class PointsController {
@@ -10,8 +39,94 @@ export class PointsController {
   @Post("create")
   async createPoints(
     @Body() createPointsDto: CreatePointsDto,
-  ): Promise<PointBalance | null> {
+    @Headers(IDEMPOTENCY_KEY_HEADER) idempotencyKey?: string,
+  ): Promise<PointBalanceResult | null> {
     const { userId, amount = 1000 } = createPointsDto;
-    return this.pointsService.createPointBalance(userId, amount);
+    const referenceId = this.referenceIdOf(idempotencyKey, createPointsDto.referenceId);
+    return this.pointsService.createPointBalance(userId, amount, { referenceId });
+  }
+
+  @Get(":userId")
+  async getPoints(@Param() params: PointUserParamDto): Promise<PointBalance> {
+    const balance = await this.pointsService.getPointsByUserId(params.userId);
+    if (!balance) {
+      throw new PointBalanceNotFoundException(params.userId);
+    }
+    return balance;
+  }
+
+  @Get(":userId/history")
+  async getPointHistory(
+    @Param() params: PointUserParamDto,
+    @Query() query: FindPointsDto,
+  ): Promise<CursorPage<Point>> {
+    return this.pointsService.getPointHistory(params.userId, query);
+  }
+
+  @Post("earn")
+  async earnPoints(
+    @Body() addPointDto: AddPointDto,
+    @Headers(IDEMPOTENCY_KEY_HEADER) idempotencyKey?: string,
+  ): Promise<PointBalanceResult | null> {
+    const { userId, point } = addPointDto;
+    const referenceId = this.referenceIdOf(idempotencyKey, addPointDto.referenceId);
+    return this.pointsService.addPoints(userId, point, { referenceId });
+  }
+
+  @Post("use")
+  async usePoints(
+    @Body() usePointDto: UsePointDto,
+    @Headers(IDEMPOTENCY_KEY_HEADER) idempotencyKey?: string,
+  ): Promise<PointBalanceResult | null> {
+    const { userId, point } = usePointDto;
+    const referenceId = this.referenceIdOf(idempotencyKey, usePointDto.referenceId);
+    return this.pointsService.usePoints(userId, point, { referenceId });
+  }
+
+  @Post("refund")
+  async refundPoints(
+    @Body() refundPointDto: RefundPointDto,
+    @Headers(IDEMPOTENCY_KEY_HEADER) idempotencyKey?: string,
+  ): Promise<PointBalanceResult | null> {
+    const { userId, originalReferenceId, point, description } = refundPointDto;
+    const referenceId = this.referenceIdOf(idempotencyKey, refundPointDto.referenceId);
+    return this.pointsService.refundPoints(userId, originalReferenceId, point, {
+      description,
+      referenceId,
+    });
+  }
+
+  @Post("transfer")
+  async transferPoints(
+    @Body() transferPointDto: TransferPointDto,
+    @Headers(IDEMPOTENCY_KEY_HEADER) idempotencyKey?: string,
+  ): Promise<PointTransferResult> {
+    const { fromUserId, toUserId, point, description } = transferPointDto;
+    const referenceId = this.referenceIdOf(idempotencyKey, transferPointDto.referenceId);
+    return this.pointsService.transferPoints(fromUserId, toUserId, point, {
+      description,
+      referenceId,
+    });
+  }
+
+  @Delete(":userId")
+  async deletePoints(@Param() params: PointUserParamDto): Promise<PointBalance | null> {
+    return this.pointsService.deletePoints(params.userId);
+  }
+
+  ///// private //////
+
+  // 헤더는 DTO 검증을 거치지 않으므로 서비스에 넘기기 전에 직접 확인한다
+  private referenceIdOf(
+    idempotencyKey?: string,
+    referenceId?: string,
+  ): string | undefined {
+    if (idempotencyKey === undefined) {
+      return referenceId;
+    }
+    if (!idempotencyKey || idempotencyKey.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+      throw new InvalidIdempotencyKeyException(MAX_IDEMPOTENCY_KEY_LENGTH);
+    }
+    return idempotencyKey;
   }
 }
@@ -0,0 +1,88 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { PointAdminController } from "./pointAdmin.controller";
+import { PointExpirationService } from "../service/pointExpiration.service";
+import { PointReconciliationService } from "../service/pointReconciliation.service";
+
+describe(PointAdminController.name, () => {
+  let pointAdminController: PointAdminController;
+  const mockExpirationService = {
+    expireAll: jest.fn(),
+  };
+  const mockReconciliationService = {
+    reconcile: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        {
+          provide: PointExpirationService,
+          useValue: mockExpirationService,
+        },
+        {
+          provide: PointReconciliationService,
+          useValue: mockReconciliationService,
+        },
+      ],
+      controllers: [PointAdminController],
+    }).compile();
+
+    pointAdminController = module.get<PointAdminController>(PointAdminController);
+  });
+
+  describe("expirePoints", () => {
+    test("should run a manual expiration sweep", async () => {
+      // Given : 소멸 결과
+      const sweepResult = { processedUsers: 2, expiredPoints: 300, failedUsers: [] };
+      mockExpirationService.expireAll.mockResolvedValue(sweepResult);
+
+      // When : expirePoints 호출
+      const result = await pointAdminController.expirePoints();
+
+      // Then : 소멸 결과가 그대로 반환되어야 한다
+      expect(result).toEqual(sweepResult);
+      expect(mockExpirationService.expireAll).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("reconcilePoints", () => {
+    const reconcileResult = {
+      checkedUsers: 1,
+      mismatches: [],
+      repairedUsers: 0,
+      failedUsers: [],
+    };
+
+    test("should only report mismatches by default", async () => {
+      // Given : 대사 결과
+      mockReconciliationService.reconcile.mockResolvedValue(reconcileResult);
+
+      // When : 옵션 없이 호출
+      const result = await pointAdminController.reconcilePoints({});
+
+      // Then : 복구 없이 대사만 수행해야 한다
+      expect(result).toEqual(reconcileResult);
+      expect(mockReconciliationService.reconcile).toHaveBeenCalledWith({
+        userId: undefined,
+        repair: false,
+      });
+    });
+
+    test("should pass repair and userId options", async () => {
+      // Given
+      const userId = "6561f3b2a1b2c3d4e5f60718";
+      mockReconciliationService.reconcile.mockResolvedValue(reconcileResult);
+
+      // When
+      await pointAdminController.reconcilePoints({ userId, repair: true });
+
+      // Then
+      expect(mockReconciliationService.reconcile).toHaveBeenCalledWith({
+        userId,
+        repair: true,
+      });
+    });
+  });
+});
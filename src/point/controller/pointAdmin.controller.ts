@@ -0,0 +1,33 @@
+import { Controller, HttpCode, HttpStatus, Post, Query } from "@nestjs/common";
+import {
+  PointExpirationResult,
+  PointExpirationService,
+} from "../service/pointExpiration.service";
+import {
+  PointReconciliationResult,
+  PointReconciliationService,
+} from "../service/pointReconciliation.service";
+import { ReconcilePointsDto } from "../dto/reconcile.point.dto";
+
+@Controller("admin/points")
+export class PointAdminController {
+  constructor(
+    private readonly pointExpirationService: PointExpirationService,
+    private readonly pointReconciliationService: PointReconciliationService,
+  ) {}
+
+  @Post("expire")
+  @HttpCode(HttpStatus.OK)
+  async expirePoints(): Promise<PointExpirationResult> {
+    return this.pointExpirationService.expireAll();
+  }
+
+  @Post("reconcile")
+  @HttpCode(HttpStatus.OK)
+  async reconcilePoints(
+    @Query() query: ReconcilePointsDto,
+  ): Promise<PointReconciliationResult> {
+    const { userId, repair = false } = query;
+    return this.pointReconciliationService.reconcile({ userId, repair });
+  }
+}
@@ -1,8 +1,24 @@
-import { IsMongoId, IsNumber } from "class-validator";
+import { Transform } from "class-transformer";
+import {
+  IsMongoId,
+  IsNumber,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+} from "class-validator";
 
 export class AddPointDto {
-  @IsMongoId()
+  @IsMongoId({ message: "user ID must be a valid MongoDB ObjectId" })
   userId: string;
+
   @IsNumber()
+  @Min(1, { message: "Point must be at least 1" })
+  @Transform(({ value }) => Number(value))
   point: number;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(128)
+  referenceId?: string;
 }
@@ -1,5 +1,13 @@
 import { Transform } from "class-transformer";
-import { IsMongoId, IsNumber, IsString, Max, Min } from "class-validator";
+import {
+  IsMongoId,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from "class-validator";
 
 export class CreatePointsDto {
   @IsMongoId({ message: "user ID must be a valid MongoDB ObjectId" })
@@ -10,4 +18,9 @@ export class CreatePointsDto {
   @Max(10000, { message: "Amount must not exceed 1,000,000" })
   @Transform(({ value }) => Number(value))
   amount?: number;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(128)
+  referenceId?: string;
 }
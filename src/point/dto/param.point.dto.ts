@@ -0,0 +1,6 @@
+import { IsMongoId } from "class-validator";
+
+export class PointUserParamDto {
+  @IsMongoId({ message: "user ID must be a valid MongoDB ObjectId" })
+  userId: string;
+}
@@ -0,0 +1,15 @@
+import { Transform } from "class-transformer";
+import { IsBoolean, IsMongoId, IsOptional } from "class-validator";
+
+export class ReconcilePointsDto {
+  @IsOptional()
+  @IsMongoId({ message: "user ID must be a valid MongoDB ObjectId" })
+  userId?: string;
+
+  @IsOptional()
+  @Transform(({ value }: { value: unknown }) =>
+    typeof value === "string" ? value === "true" : value,
+  )
+  @IsBoolean()
+  repair?: boolean;
+}
@@ -0,0 +1,38 @@
+import { Transform } from "class-transformer";
+import {
+  IsMongoId,
+  IsNumber,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+} from "class-validator";
+
+export class RefundPointDto {
+  @IsMongoId({ message: "user ID must be a valid MongoDB ObjectId" })
+  userId: string;
+
+  // 환불할 USE 건의 referenceId
+  @IsString()
+  @MaxLength(128)
+  originalReferenceId: string;
+
+  // 생략하면 남은 금액 전액 환불
+  @IsOptional()
+  @IsNumber()
+  @Min(1, { message: "Point must be at least 1" })
+  @Transform(({ value }: { value: unknown }) =>
+    value === undefined ? value : Number(value),
+  )
+  point?: number;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  description?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(128)
+  referenceId?: string;
+}
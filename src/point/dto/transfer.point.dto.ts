@@ -0,0 +1,32 @@
+import { Transform } from "class-transformer";
+import {
+  IsMongoId,
+  IsNumber,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+} from "class-validator";
+
+export class TransferPointDto {
+  @IsMongoId({ message: "sender ID must be a valid MongoDB ObjectId" })
+  fromUserId: string;
+
+  @IsMongoId({ message: "receiver ID must be a valid MongoDB ObjectId" })
+  toUserId: string;
+
+  @IsNumber()
+  @Min(1, { message: "Point must be at least 1" })
+  @Transform(({ value }) => Number(value))
+  point: number;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  description?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(128)
+  referenceId?: string;
+}
@@ -0,0 +1,119 @@
+import { HttpStatus } from "@nestjs/common";
+import { DomainException } from "../../common/exception";
+
+export class PointBalanceNotFoundException extends DomainException {
+  constructor(userId: string) {
+    super(
+      "POINT_BALANCE_NOT_FOUND",
+      "Points not found for this user",
+      HttpStatus.NOT_FOUND,
+      { userId },
+    );
+  }
+}
+
+export class PointBalanceAlreadyExistsException extends DomainException {
+  constructor(userId: string) {
+    super(
+      "POINT_BALANCE_ALREADY_EXISTS",
+      "Points already exist for this user",
+      HttpStatus.CONFLICT,
+      { userId },
+    );
+  }
+}
+
+export class InsufficientPointsException extends DomainException {
+  constructor(userId: string, requested: number, available?: number) {
+    super("INSUFFICIENT_POINTS", "Insufficient points", HttpStatus.PAYMENT_REQUIRED, {
+      userId,
+      requested,
+      ...(available !== undefined && { available }),
+    });
+  }
+}
+
+// 동시 변경으로 조건부 갱신이 실패한 경우. 같은 요청을 다시 시도하면 된다
+// cause에 트랜잭션 쓰기 충돌 오류가 있으면 @Transactional이 트랜잭션을 다시 시도한다
+export class PointBalanceConflictException extends DomainException {
+  readonly retryable = true;
+
+  constructor(userId: string, cause?: unknown) {
+    super(
+      "POINT_BALANCE_CONFLICT",
+      "Point balance was modified concurrently, please retry",
+      HttpStatus.CONFLICT,
+      { userId, retryable: true },
+    );
+    this.cause = cause;
+  }
+}
+
+export class IdempotencyKeyConflictException extends DomainException {
+  constructor(referenceId: string, cause?: unknown) {
+    super(
+      "IDEMPOTENCY_KEY_CONFLICT",
+      "Idempotency key already used for a different request",
+      HttpStatus.CONFLICT,
+      { referenceId },
+    );
+    this.cause = cause;
+  }
+}
+
+// Idempotency-Key 헤더가 비어 있거나 referenceId 최대 길이를 넘는 경우
+export class InvalidIdempotencyKeyException extends DomainException {
+  constructor(maxLength: number) {
+    super(
+      "INVALID_IDEMPOTENCY_KEY",
+      `Idempotency-Key must be 1 to ${maxLength} characters`,
+      HttpStatus.BAD_REQUEST,
+      { maxLength },
+    );
+  }
+}
+
+export class SelfTransferException extends DomainException {
+  constructor(userId: string) {
+    super(
+      "SELF_TRANSFER_NOT_ALLOWED",
+      "Cannot transfer points to the same user",
+      HttpStatus.BAD_REQUEST,
+      { userId },
+    );
+  }
+}
+
+export class PointUsageNotFoundException extends DomainException {
+  constructor(userId: string, referenceId: string) {
+    super(
+      "POINT_USAGE_NOT_FOUND",
+      "Point usage not found for this reference",
+      HttpStatus.NOT_FOUND,
+      { userId, referenceId },
+    );
+  }
+}
+
+export class RefundExceedsUsageException extends DomainException {
+  constructor(referenceId: string, requested: number, refundable: number) {
+    super(
+      "REFUND_EXCEEDS_USAGE",
+      "Refund amount exceeds refundable points",
+      HttpStatus.CONFLICT,
+      { referenceId, requested, refundable },
+    );
+  }
+}
+
+// 선물로 보낸 포인트는 받은 사람이 이미 적립했으므로 환불할 수 없다
+export class TransferNotRefundableException extends DomainException {
+  constructor(referenceId: string) {
+    super(
+      "TRANSFER_NOT_REFUNDABLE",
+      "Transferred points cannot be refunded",
+      HttpStatus.CONFLICT,
+      { referenceId },
+    );
+  }
+}
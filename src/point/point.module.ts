@@ -1,13 +1,31 @@
 import { Module } from "@nestjs/common";
 import { PointsController } from "./controller/point.controller";
+import { PointAdminController } from "./controller/pointAdmin.controller";
 import { MongooseModule } from "@nestjs/mongoose";
 import { Point, PointSchema } from "./schema/point.schema";
+import { PointBalance, PointBalanceSchema } from "./schema/pointBalance.schema";
 import { PointRepository } from "./repository/point.repository";
+import { PointBalanceRepository } from "./repository/pointBalance.repository";
 import { PointsService } from "./service/point.service";
+import { PointExpirationService } from "./service/pointExpiration.service";
+import { PointReconciliationService } from "./service/pointReconciliation.service";
+import { PointBackfillService } from "./service/pointBackfill.service";
 
 @Module({
-  imports: [MongooseModule.forFeature([{ name: Point.name, schema: PointSchema }])],
-  providers: [PointsService, PointRepository],
-  controllers: [PointsController],
+  imports: [
+    MongooseModule.forFeature([
+      { name: Point.name, schema: PointSchema },
+      { name: PointBalance.name, schema: PointBalanceSchema },
+    ]),
+  ],
+  providers: [
+    PointsService,
+    PointExpirationService,
+    PointReconciliationService,
+    PointBackfillService,
+    PointRepository,
+    PointBalanceRepository,
+  ],
+  controllers: [PointsController, PointAdminController],
 })
 export class PointModule {}
@@ -4,6 +4,7 @@ import { PointRepository } from "./point.repository";
 import { Point, PointSchema, PointType } from "../schema/point.schema";
 import { TransactionContextStorage } from "../../common/transaction/transaction.context";
 import { RepositoryTestUtils } from "../../common/repository";
+import { InvalidCursorException } from "../../common/exception";
 
 describe(PointRepository.name, () => {
   let pointRepository: PointRepository;
@@ -151,5 +152,192 @@ describe(PointRepository.name, () => {
         });
       });
     });
+
+    describe("findExpirablePoints", () => {
+      test("should find active EARN points whose expiresAt has passed", async () => {
+        // Given: 만료일이 지난 포인트, 남은 포인트, 무제한 포인트 생성
+        const userId = new Types.ObjectId().toString();
+        const expiredPoint = getSamplePointData();
+        expiredPoint.userId = userId;
+        expiredPoint.expiresAt = new Date(Date.now() - 24 * 60 * 60 * 1000);
+
+        const validPoint = getSamplePointData();
+        validPoint.userId = userId;
+
+        const unlimitedPoint = getSamplePointData();
+        unlimitedPoint.userId = userId;
+        unlimitedPoint.expiresAt = null;
+
+        await pointRepository.create(expiredPoint);
+        await pointRepository.create(validPoint);
+        await pointRepository.create(unlimitedPoint);
+
+        // When: 소멸 대상 포인트 조회
+        const expirable = await pointRepository.findExpirablePoints(userId);
+        const userIds = await pointRepository.findUserIdsWithExpirablePoints();
+
+        // Then: 만료일이 지난 포인트만 반환되어야 함
+        expect(expirable).toHaveLength(1);
+        expect(expirable[0].expiresAt!.getTime()).toBeLessThan(Date.now());
+        expect(userIds).toEqual([userId]);
+      });
+    });
+
+    describe("deactivatePoints", () => {
+      test("should deactivate only active points", async () => {
+        // Given: 활성 포인트 생성
+        const created = await pointRepository.create(getSamplePointData());
+
+        // When: 두 번 비활성화
+        const first = await pointRepository.deactivatePoints([
+          created._id as Types.ObjectId,
+        ]);
+        const second = await pointRepository.deactivatePoints([
+          created._id as Types.ObjectId,
+        ]);
+
+        // Then: 처음에만 변경되어야 함
+        expect(first).toBe(1);
+        expect(second).toBe(0);
+      });
+    });
+
+    describe("findConsumableLots", () => {
+      test("should order lots by expiresAt with unlimited lots last", async () => {
+        // Given: 무제한, 10일 후, 5일 후 만료 적립 건 생성
+        const userId = new Types.ObjectId().toString();
+        const unlimited = { ...getSamplePointData(), userId, expiresAt: null };
+        const later = {
+          ...getSamplePointData(),
+          userId,
+          expiresAt: new Date(Date.now() + 10 * 24 * 60 * 60 * 1000),
+        };
+        const sooner = {
+          ...getSamplePointData(),
+          userId,
+          expiresAt: new Date(Date.now() + 5 * 24 * 60 * 60 * 1000),
+        };
+        for (const lot of [unlimited, later, sooner]) {
+          await pointRepository.create({ ...lot, remainingAmount: lot.amount });
+        }
+
+        // When: 차감 가능한 적립 건 조회
+        const lots = await pointRepository.findConsumableLots(userId);
+
+        // Then: 만료일이 빠른 순서, 무제한 건은 마지막
+        expect(lots).toHaveLength(3);
+        expect(lots[0].expiresAt!.getTime()).toBe(sooner.expiresAt.getTime());
+        expect(lots[1].expiresAt!.getTime()).toBe(later.expiresAt.getTime());
+        expect(lots[2].expiresAt).toBeNull();
+      });
+    });
+
+    describe("consumeLot", () => {
+      test("should decrement remainingAmount only when enough is left", async () => {
+        // Given: 남은 금액 1000인 적립 건
+        const created = await pointRepository.create({
+          ...getSamplePointData(),
+          remainingAmount: 1000,
+        });
+        const pointId = created._id as Types.ObjectId;
+
+        // When: 600씩 두 번 차감
+        const first = await pointRepository.consumeLot(pointId, 600);
+        const second = await pointRepository.consumeLot(pointId, 600);
+
+        // Then: 두 번째 차감은 거부되어야 함
+        expect(first!.remainingAmount).toBe(400);
+        expect(second).toBeNull();
+      });
+    });
+
+    describe("findHistory", () => {
+      // 생성 시각이 다른 원장 데이터를 만드는 헬퍼
+      const createHistory = async (userId: string, count: number) => {
+        for (let i = 0; i < count; i++) {
+          await pointRepository.create({
+            ...getSamplePointData(),
+            userId,
+            type: i % 2 === 0 ? PointType.EARN : PointType.USE,
+            amount: i + 1,
+          });
+        }
+      };
+
+      test("should paginate with cursor in createdAt desc order", async () => {
+        // Given: 5건의 원장
+        const userId = new Types.ObjectId().toString();
+        await createHistory(userId, 5);
+
+        // When: 2건씩 끝까지 조회
+        const first = await pointRepository.findHistory(userId, {}, undefined, 2);
+        const second = await pointRepository.findHistory(
+          userId,
+          {},
+          first.nextCursor!,
+          2,
+        );
+        const third = await pointRepository.findHistory(
+          userId,
+          {},
+          second.nextCursor!,
+          2,
+        );
+
+        // Then: 중복 없이 최신순으로 모두 조회되어야 함
+        expect(first.hasMore).toBe(true);
+        expect(second.hasMore).toBe(true);
+        expect(third.hasMore).toBe(false);
+        expect(third.nextCursor).toBeNull();
+        const amounts = [...first.data, ...second.data, ...third.data].map(
+          (point) => point.amount,
+        );
+        expect(amounts).toEqual([5, 4, 3, 2, 1]);
+      });
+
+      test("should filter by type and active status", async () => {
+        // Given: EARN 3건, USE 2건 중 EARN 1건 비활성
+        const userId = new Types.ObjectId().toString();
+        await createHistory(userId, 5);
+        await pointRepository.updateOne(
+          { userId, type: PointType.EARN, amount: 1 },
+          { isActive: false },
+        );
+
+        // When: 활성 EARN 건만 조회
+        const result = await pointRepository.findHistory(userId, {
+          type: PointType.EARN,
+          isActive: true,
+        });
+
+        // Then
+        expect(result.data.map((point) => point.amount)).toEqual([5, 3]);
+      });
+
+      test("should filter by date range", async () => {
+        // Given
+        const userId = new Types.ObjectId().toString();
+        await createHistory(userId, 2);
+
+        // When: 미래 구간으로 조회
+        const result = await pointRepository.findHistory(userId, {
+          from: new Date(Date.now() + 60 * 60 * 1000),
+        });
+
+        // Then
+        expect(result.data).toHaveLength(0);
+        expect(result.hasMore).toBe(false);
+      });
+
+      test("should reject malformed cursor", async () => {
+        // Given
+        const userId = new Types.ObjectId().toString();
+
+        // When & Then
+        await expect(
+          pointRepository.findHistory(userId, {}, "not-a-cursor"),
+        ).rejects.toThrow(InvalidCursorException);
+      });
+    });
   });
 });
@@ -1,10 +1,26 @@
 import { Injectable } from "@nestjs/common";
 import { InjectModel } from "@nestjs/mongoose";
-import { FilterQuery, Model } from "mongoose";
-import { Point, PointDocument } from "../schema/point.schema";
+import { FilterQuery, Model, PipelineStage, Types } from "mongoose";
+import { Point, PointDocument, PointType } from "../schema/point.schema";
 import { HandleAllDbErrors } from "../../common/decorator/DbErrors.decorator";
 import { TransactionContextStorage } from "../../common/transaction/transaction.context";
-import { BaseRepository } from "../../common/repository";
+import { BaseRepository, CursorPage } from "../../common/repository";
+
+// 사용자별 원장 유형 합계
+export interface LedgerTotals {
+  userId: string;
+  earned: number;
+  used: number;
+  expired: number;
+  refunded: number;
+}
+
+export interface PointHistoryFilter {
+  type?: PointType;
+  from?: Date;
+  to?: Date;
+  isActive?: boolean;
+}
 
 @Injectable()
 @HandleAllDbErrors
@@ -22,6 +38,34 @@ export class PointRepository extends BaseRepository<PointDocument> {
     return await this.applySessionToQuery(query).exec();
   }
 
+  async findByReference(
+    userId: string,
+    type: PointType,
+    referenceId: string,
+  ): Promise<PointDocument | null> {
+    // 여러 건으로 나뉘어 기록된 경우 첫 건(referenceSeq 없음)을 돌려준다
+    return await this.findOne({ userId, type, referenceId, referenceSeq: null });
+  }
+
+  // createdAt, _id 내림차순 커서 페이지네이션
+  async findHistory(
+    userId: string,
+    filter: PointHistoryFilter,
+    cursor?: string,
+    limit = 20,
+  ): Promise<CursorPage<Point>> {
+    const conditions: FilterQuery<PointDocument>[] = [{ userId }];
+    if (filter.type) conditions.push({ type: filter.type });
+    if (filter.isActive !== undefined) conditions.push({ isActive: filter.isActive });
+    if (filter.from) conditions.push({ createdAt: { $gte: filter.from } });
+    if (filter.to) conditions.push({ createdAt: { $lte: filter.to } });
+
+    return await this.findWithCursor<Point>(
+      { $and: conditions },
+      { after: cursor, limit, sort: { createdAt: -1 } },
+    );
+  }
+
   async findExpiringPoints(userId: string, days: number): Promise<Point[]> {
     const expiryDate = new Date();
     expiryDate.setDate(expiryDate.getDate() + days);
@@ -57,4 +101,173 @@ export class PointRepository extends BaseRepository<PointDocument> {
     const query = this.pointModel.find(filter);
     return await this.applySessionToQuery(query).lean();
   }
+
+  async findUserIdsWithExpirablePoints(now: Date = new Date()): Promise<string[]> {
+    const query = this.pointModel.distinct("userId", {
+      type: PointType.EARN,
+      isActive: true,
+      expiresAt: { $ne: null, $lt: now },
+    });
+    return await this.applySessionToQuery(query).exec();
+  }
+
+  async findExpirablePoints(
+    userId: string,
+    now: Date = new Date(),
+  ): Promise<PointDocument[]> {
+    const query = this.pointModel
+      .find({
+        userId,
+        type: PointType.EARN,
+        isActive: true,
+        expiresAt: { $ne: null, $lt: now },
+      })
+      .sort({ expiresAt: 1 });
+    return await this.applySessionToQuery(query).exec();
+  }
+
+  // 소멸된 적립 건은 남은 금액도 함께 비운다
+  async deactivatePoints(ids: Types.ObjectId[]): Promise<number> {
+    const result = await this.updateMany(
+      { _id: { $in: ids }, isActive: true },
+      { $set: { isActive: false, remainingAmount: 0 } },
+    );
+    return result.modifiedCount;
+  }
+
+  // 만료일이 빠른 순서로, 무제한(expiresAt: null) 적립 건은 마지막에 차감
+  async findConsumableLots(userId: string): Promise<PointDocument[]> {
+    const query = this.pointModel
+      .find({
+        userId,
+        type: PointType.EARN,
+        isActive: true,
+        remainingAmount: { $gt: 0 },
+      })
+      .sort({ expiresAt: 1, createdAt: 1, _id: 1 });
+    const lots = await this.applySessionToQuery(query).exec();
+
+    return [
+      ...lots.filter((lot) => lot.expiresAt != null),
+      ...lots.filter((lot) => lot.expiresAt == null),
+    ];
+  }
+
+  async consumeLot(
+    pointId: Types.ObjectId,
+    amount: number,
+  ): Promise<PointDocument | null> {
+    const attachedOptions = this.attachWriteSession({ new: true });
+
+    return await this.pointModel.findOneAndUpdate(
+      { _id: pointId, isActive: true, remainingAmount: { $gte: amount } },
+      { $inc: { remainingAmount: -amount } },
+      attachedOptions,
+    );
+  }
+
+  async hasLedger(userId: string): Promise<boolean> {
+    const query = this.pointModel.exists({ userId });
+    return (await this.applySessionToQuery(query).exec()) !== null;
+  }
+
+  async hasLegacyLots(userId: string): Promise<boolean> {
+    const query = this.pointModel.exists({
+      userId,
+      type: PointType.EARN,
+      remainingAmount: { $exists: false },
+    });
+    return (await this.applySessionToQuery(query).exec()) !== null;
+  }
+
+  // 원장 도입 전에 기록되어 남은 금액(remainingAmount)이 없는 적립 건
+  async findLegacyLots(userId: string): Promise<PointDocument[]> {
+    const query = this.pointModel
+      .find({ userId, type: PointType.EARN, remainingAmount: { $exists: false } })
+      .sort({ createdAt: 1, _id: 1 });
+    return await this.applySessionToQuery(query).exec();
+  }
+
+  async setLegacyRemainingAmount(
+    pointId: Types.ObjectId,
+    remainingAmount: number,
+  ): Promise<PointDocument | null> {
+    const attachedOptions = this.attachWriteSession({ new: true });
+
+    return await this.pointModel.findOneAndUpdate(
+      { _id: pointId, type: PointType.EARN, remainingAmount: { $exists: false } },
+      { $set: { remainingAmount } },
+      attachedOptions,
+    );
+  }
+
+  // 환불 누계가 사용 금액을 넘지 않을 때만 원자적으로 증가
+  async reserveRefund(
+    useEntryId: Types.ObjectId,
+    amount: number,
+  ): Promise<PointDocument | null> {
+    const attachedOptions = this.attachWriteSession({ new: true });
+
+    return await this.pointModel.findOneAndUpdate(
+      {
+        _id: useEntryId,
+        type: PointType.USE,
+        $expr: {
+          $lte: [{ $add: [{ $ifNull: ["$refundedAmount", 0] }, amount] }, "$amount"],
+        },
+      },
+      { $inc: { refundedAmount: amount } },
+      attachedOptions,
+    );
+  }
+
+  // 이미 소멸된 적립 건도 다시 활성화되며, 만료일이 지났다면 다음 소멸 작업에서 처리된다
+  async restoreLot(
+    pointId: Types.ObjectId,
+    amount: number,
+  ): Promise<PointDocument | null> {
+    const attachedOptions = this.attachWriteSession({ new: true });
+
+    return await this.pointModel.findOneAndUpdate(
+      { _id: pointId, type: PointType.EARN },
+      { $inc: { remainingAmount: amount }, $set: { isActive: true } },
+      attachedOptions,
+    );
+  }
+
+  async aggregateLedgerTotals(userId?: string): Promise<LedgerTotals[]> {
+    return await this.aggregate<LedgerTotals>(this.ledgerTotalsPipeline(userId));
+  }
+
+  // 전체 사용자를 대상으로 할 때 결과를 한꺼번에 메모리에 올리지 않는다
+  streamLedgerTotals(userId?: string): AsyncIterable<LedgerTotals> {
+    return this.aggregateStream<LedgerTotals>(this.ledgerTotalsPipeline(userId), {
+      allowDiskUse: true,
+    });
+  }
+
+  ///// private //////
+
+  private ledgerTotalsPipeline(userId?: string): PipelineStage[] {
+    const sumOf = (type: PointType) => ({
+      $sum: { $cond: [{ $eq: ["$type", type] }, "$amount", 0] },
+    });
+
+    return [
+      { $match: userId ? { userId } : {} },
+      {
+        $group: {
+          _id: "$userId",
+          earned: sumOf(PointType.EARN),
+          used: sumOf(PointType.USE),
+          expired: sumOf(PointType.EXPIRE),
+          refunded: sumOf(PointType.REFUND),
+        },
+      },
+      {
+        $project: { _id: 0, userId: "$_id", earned: 1, used: 1, expired: 1, refunded: 1 },
+      },
+      { $sort: { userId: 1 } },
+    ];
+  }
 }
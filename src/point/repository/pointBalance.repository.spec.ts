@@ -210,6 +210,54 @@ describe(PointBalanceRepository.name, () => {
       // Then : 조회된 포인트가 null인지 확인
       expect(usedPoint).toBeNull();
     });
+
+    test("should return null when available points are not enough", async () => {
+      // Given : 100 포인트 보유
+      const userId = new Types.ObjectId().toString();
+      await pointBalanceRepository.earnPoint(userId, 100);
+
+      // When : 보유량보다 많이 사용
+      const usedPoint = await pointBalanceRepository.usePoint(userId, 200);
+
+      // Then : 갱신되지 않고 잔액이 음수가 되지 않아야 한다
+      expect(usedPoint).toBeNull();
+      const balance = await pointBalanceRepository.findByUserId(userId);
+      expect(balance!.availablePoints).toBe(100);
+    });
+
+    test("should increase version on every change", async () => {
+      // Given
+      const userId = new Types.ObjectId().toString();
+      const created = await pointBalanceRepository.createUserBalance(userId, 1000);
+
+      // When
+      const usedPoint = await pointBalanceRepository.usePoint(
+        userId,
+        100,
+        created.version,
+      );
+
+      // Then
+      expect(created.version).toBe(0);
+      expect(usedPoint!.version).toBe(1);
+    });
+
+    test("should return null when the version has changed", async () => {
+      // Given : 조회 이후 다른 요청이 잔액을 변경
+      const userId = new Types.ObjectId().toString();
+      const created = await pointBalanceRepository.createUserBalance(userId, 1000);
+      await pointBalanceRepository.earnPoint(userId, 100);
+
+      // When : 이전 버전으로 사용
+      const usedPoint = await pointBalanceRepository.usePoint(
+        userId,
+        100,
+        created.version,
+      );
+
+      // Then
+      expect(usedPoint).toBeNull();
+    });
   });
 
   describe("expirePoint", () => {
@@ -362,9 +410,12 @@ describe(PointBalanceRepository.name, () => {
       expect(deleteResult).not.toBeNull();
       expect(deleteResult!.userId).toBe(userId);
 
-      // And : 실제로 삭제되었는지 확인
+      // And : 조회되지 않지만 문서는 남아 있어야 함
       const exists = await pointBalanceRepository.exist(userId);
       expect(exists).toBe(false);
+      const deleted = await pointBalanceRepository.withDeleted().findByUserId(userId);
+      expect(deleted).not.toBeNull();
+      expect(deleted!.deletedAt).toBeInstanceOf(Date);
     });
 
     test("should return null when user does not exist", async () => {
@@ -378,4 +429,29 @@ describe(PointBalanceRepository.name, () => {
       expect(deleteResult).toBeNull();
     });
   });
+
+  describe("soft delete", () => {
+    RepositoryTestUtils.createCommonCrudTests(
+      () => pointBalanceRepository,
+      getSampleBalanceData,
+      getUpdateBalanceData,
+    ).testSoftDelete();
+
+    test("should not change soft-deleted balances", async () => {
+      // Given : 삭제된 잔액
+      const userId = new Types.ObjectId().toString();
+      await pointBalanceRepository.createUserBalance(userId, 1000);
+      await pointBalanceRepository.deleteByUserId(userId);
+
+      // When
+      const used = await pointBalanceRepository.usePoint(userId, 100);
+      const expired = await pointBalanceRepository.expirePoint(userId, 100);
+
+      // Then
+      expect(used).toBeNull();
+      expect(expired).toBeNull();
+      const balance = await pointBalanceRepository.withDeleted().findByUserId(userId);
+      expect(balance!.availablePoints).toBe(1000);
+    });
+  });
 });
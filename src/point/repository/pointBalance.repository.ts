@@ -1,11 +1,17 @@
-import { Injectable } from "@nestjs/common";
+import { Injectable, Optional } from "@nestjs/common";
 import { InjectModel } from "@nestjs/mongoose";
-import { Model } from "mongoose";
+import { FilterQuery, Model, UpdateQuery } from "mongoose";
 import { PointBalance, PointBalanceDocument } from "../schema/pointBalance.schema";
 import { HandleAllDbErrors } from "../../common/decorator/DbErrors.decorator";
+import { USER_LOCK_KEY_PREFIX } from "../../common/decorator/withUserLock.decorator";
+import { LockLostException } from "../../common/exception";
+import { LockService } from "../../common/lock/lock.service";
 import { TransactionContextStorage } from "../../common/transaction/transaction.context";
 import { BaseRepository } from "../../common/repository";
 
+type BalanceFilter = FilterQuery<PointBalanceDocument>;
+type BalanceUpdate = UpdateQuery<PointBalanceDocument>;
+
 @Injectable()
 @HandleAllDbErrors
 export class PointBalanceRepository extends BaseRepository<PointBalanceDocument> {
@@ -13,8 +19,10 @@ export class PointBalanceRepository extends BaseRepository<PointBalanceDocument>
     @InjectModel(PointBalance.name)
     private readonly pointBalanceModel: Model<PointBalanceDocument>,
     transactionContextStorage: TransactionContextStorage,
+    // LockModule이 없으면 fencing 없이 쓴다
+    @Optional() private readonly lockService?: LockService,
   ) {
-    super(pointBalanceModel, transactionContextStorage);
+    super(pointBalanceModel, transactionContextStorage, { softDelete: true });
   }
 
   // 도메인 특화 메서드들
@@ -28,6 +36,7 @@ export class PointBalanceRepository extends BaseRepository<PointBalanceDocument>
       availablePoints: initpoint,
       usedPoints: 0,
       expiredPoints: 0,
+      version: 0,
     };
 
     return await this.create(pointBalance);
@@ -38,32 +47,69 @@ export class PointBalanceRepository extends BaseRepository<PointBalanceDocument>
   }
 
   async earnPoint(userId: string, amount: number): Promise<PointBalanceDocument | null> {
-    const attachedOptions = this.attachSession({ upsert: true, new: true, lean: true });
+    const attachedOptions = this.attachWriteSession({ new: true, lean: true });
+    const update = {
+      $inc: {
+        totalPoints: amount,
+        availablePoints: amount,
+        version: 1,
+      },
+    };
 
-    return await this.pointBalanceModel.findOneAndUpdate(
+    const earned = await this.fencedUpdate(
+      userId,
       { userId },
-      {
-        $inc: {
-          totalPoints: amount,
-          availablePoints: amount,
-        },
-      },
-      attachedOptions,
+      update,
+      (filter, guarded) =>
+        this.pointBalanceModel.findOneAndUpdate(
+          this.applySoftDeleteFilter(filter),
+          guarded,
+          attachedOptions,
+        ),
+    );
+    if (earned) {
+      return earned;
+    }
+
+    // fencing 조건을 붙인 채 upsert하면 다음 소유자가 쓴 잔액과 같은 userId로 삽입을 시도하므로
+    // 기존 잔액을 갱신하지 못했고 fencing에도 걸리지 않은 경우(잔액 없음)에만 upsert한다
+    return await this.pointBalanceModel.findOneAndUpdate(
+      this.applySoftDeleteFilter({ userId }),
+      update,
+      { ...attachedOptions, upsert: true },
     );
   }
 
-  async usePoint(userId: string, amount: number): Promise<PointBalanceDocument | null> {
-    const attachedOptions = this.attachSession({ new: true, lean: true });
+  // 잔액이 부족하거나 expectedVersion 이후 다른 변경이 있었다면 null을 반환한다
+  async usePoint(
+    userId: string,
+    amount: number,
+    expectedVersion?: number,
+  ): Promise<PointBalanceDocument | null> {
+    const attachedOptions = this.attachWriteSession({ new: true, lean: true });
 
-    return await this.pointBalanceModel.findOneAndUpdate(
-      { userId },
+    return await this.fencedUpdate(
+      userId,
+      {
+        userId,
+        availablePoints: { $gte: amount },
+        ...(expectedVersion !== undefined && {
+          version: this.versionFilter(expectedVersion),
+        }),
+      },
       {
         $inc: {
           availablePoints: -amount,
           usedPoints: amount,
+          version: 1,
         },
       },
-      attachedOptions,
+      (filter, update) =>
+        this.pointBalanceModel.findOneAndUpdate(
+          this.applySoftDeleteFilter(filter),
+          update,
+          attachedOptions,
+        ),
     );
   }
 
@@ -71,26 +117,122 @@ export class PointBalanceRepository extends BaseRepository<PointBalanceDocument>
     userId: string,
     amount: number,
   ): Promise<PointBalanceDocument | null> {
-    const attachedOptions = this.attachSession({ new: true, lean: true });
+    const attachedOptions = this.attachWriteSession({ new: true, lean: true });
 
-    return await this.pointBalanceModel.findOneAndUpdate(
+    return await this.fencedUpdate(
+      userId,
       { userId, availablePoints: { $gte: amount } },
       {
         $inc: {
           availablePoints: -amount,
           expiredPoints: amount,
+          version: 1,
         },
       },
-      attachedOptions,
+      (filter, update) =>
+        this.pointBalanceModel.findOneAndUpdate(
+          this.applySoftDeleteFilter(filter),
+          update,
+          attachedOptions,
+        ),
+    );
+  }
+
+  async refundPoint(
+    userId: string,
+    amount: number,
+  ): Promise<PointBalanceDocument | null> {
+    const attachedOptions = this.attachWriteSession({ new: true, lean: true });
+
+    return await this.fencedUpdate(
+      userId,
+      { userId, usedPoints: { $gte: amount } },
+      {
+        $inc: {
+          availablePoints: amount,
+          usedPoints: -amount,
+          version: 1,
+        },
+      },
+      (filter, update) =>
+        this.pointBalanceModel.findOneAndUpdate(
+          this.applySoftDeleteFilter(filter),
+          update,
+          attachedOptions,
+        ),
+    );
+  }
+
+  async overwriteTotals(
+    userId: string,
+    totals: Pick<
+      PointBalance,
+      "totalPoints" | "availablePoints" | "usedPoints" | "expiredPoints"
+    >,
+  ): Promise<PointBalanceDocument | null> {
+    return await this.fencedUpdate(
+      userId,
+      { userId },
+      { $set: totals, $inc: { version: 1 } },
+      (filter, update) => this.updateOne(filter, update),
     );
   }
 
   async exist(userId: string): Promise<boolean> {
-    const result = await this.pointBalanceModel.exists({ userId });
+    const result = await this.pointBalanceModel.exists(
+      this.applySoftDeleteFilter({ userId }),
+    );
     return result !== null;
   }
 
+  // 원장과의 연결을 유지하도록 소프트 삭제한다
   async deleteByUserId(userId: string) {
     return await this.deleteOne({ userId });
   }
+
+  // 소프트 삭제된 잔액을 되살리며, 되살린 잔액이 없으면 false를 반환한다
+  async restoreByUserId(userId: string): Promise<boolean> {
+    const result = await this.restore({ userId });
+    return result.modifiedCount > 0;
+  }
+
+  ///// private //////
+
+  // 사용자 잠금 안에서 쓰는 경우, 임대가 만료된 사이 다음 소유자가 이미 변경한 잔액은 건드리지 않는다
+  private async fencedUpdate(
+    userId: string,
+    filter: BalanceFilter,
+    update: BalanceUpdate,
+    write: (
+      filter: BalanceFilter,
+      update: BalanceUpdate,
+    ) => Promise<PointBalanceDocument | null>,
+  ): Promise<PointBalanceDocument | null> {
+    const lease = this.lockService?.getCurrentLease(`${USER_LOCK_KEY_PREFIX}${userId}`);
+    if (!lease) {
+      return await write(filter, update);
+    }
+
+    const { fencingToken } = lease;
+    const balance = await write(
+      { ...filter, fencingToken: { $not: { $gt: fencingToken } } },
+      { ...update, $max: { fencingToken } },
+    );
+    if (!balance && (await this.isFencedOut(userId, fencingToken))) {
+      throw new LockLostException(lease.key, fencingToken);
+    }
+    return balance;
+  }
+
+  private async isFencedOut(userId: string, fencingToken: number): Promise<boolean> {
+    const result = await this.applySessionToQuery(
+      this.pointBalanceModel.exists({ userId, fencingToken: { $gt: fencingToken } }),
+    );
+    return result !== null;
+  }
+
+  // 버전 필드가 없는 기존 문서는 0으로 본다
+  private versionFilter(version: number): number | { $in: (number | null)[] } {
+    return version === 0 ? { $in: [0, null] } : version;
+  }
 }
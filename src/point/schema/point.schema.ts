@@ -1,14 +1,68 @@
 import { Prop, Schema, SchemaFactory } from "@nestjs/mongoose";
-import { Document } from "mongoose";
+import { Document, Types } from "mongoose";
+import { PointBalance } from "./pointBalance.schema";
 
 export type PointDocument = Point & Document;
 
+// 원장(Point) 기록 시 함께 남길 부가 정보
+export interface PointLedgerOptions {
+  description?: string;
+  referenceId?: string;
+  expiresAt?: Date | null;
+  // 선물(transfer)로 기록되는 USE 건의 받은 사람, EARN 건의 보낸 사람
+  transferToUserId?: string;
+  transferFromUserId?: string;
+}
+
 export enum PointType {
   EARN = "EARN",
   USE = "USE",
   EXPIRE = "EXPIRE",
+  REFUND = "REFUND",
+}
+
+// USE/EXPIRE 건이 차감한(REFUND 건은 되돌린) 적립(EARN) 건과 금액
+@Schema({ _id: false })
+export class ConsumedLot {
+  @Prop({ type: Types.ObjectId, required: true })
+  pointId: Types.ObjectId;
+
+  @Prop({ required: true })
+  amount: number;
+
+  @Prop({ type: Date, default: null })
+  expiresAt?: Date | null;
 }
 
+export const ConsumedLotSchema = SchemaFactory.createForClass(ConsumedLot);
+
+// 멱등 요청 재처리 시 돌려줄, 원장 기록 직후의 잔액
+@Schema({ _id: false })
+export class BalanceSnapshot {
+  @Prop({ required: true })
+  totalPoints: number;
+
+  @Prop({ required: true })
+  availablePoints: number;
+
+  @Prop({ default: 0 })
+  usedPoints: number;
+
+  @Prop({ default: 0 })
+  expiredPoints: number;
+
+  static from(balance: PointBalance): BalanceSnapshot {
+    return {
+      totalPoints: balance.totalPoints,
+      availablePoints: balance.availablePoints,
+      usedPoints: balance.usedPoints ?? 0,
+      expiredPoints: balance.expiredPoints ?? 0,
+    };
+  }
+}
+
+export const BalanceSnapshotSchema = SchemaFactory.createForClass(BalanceSnapshot);
+
 @Schema({ timestamps: true })
 export class Point {
   id: string;
@@ -28,20 +82,149 @@ export class Point {
   @Prop()
   referenceId?: string;
 
+  // 한 요청이 같은 referenceId로 여러 적립 건을 남길 때 두 번째 건부터 매기는 순번
+  @Prop()
+  referenceSeq?: number;
+
   @Prop({ type: Date, default: null })
   expiresAt?: Date | null;
 
   @Prop({ default: true })
   isActive: boolean;
 
-  static createInitialPoint(userId: string, initPoint: number): Partial<Point> {
+  // EARN 건의 남은 금액 (FIFO 차감 및 소멸 대상)
+  @Prop({ min: 0 })
+  remainingAmount?: number;
+
+  @Prop({ type: [ConsumedLotSchema], default: undefined })
+  consumedLots?: ConsumedLot[];
+
+  @Prop({ type: BalanceSnapshotSchema })
+  balanceSnapshot?: BalanceSnapshot;
+
+  // USE 건 중 환불된 금액
+  @Prop({ min: 0 })
+  refundedAmount?: number;
+
+  // REFUND 건이 되돌린 USE 건의 referenceId
+  @Prop()
+  originalReferenceId?: string;
+
+  // 선물로 보낸 USE 건의 받은 사람 (환불 대상에서 제외)
+  @Prop()
+  transferToUserId?: string;
+
+  // 선물로 받은 EARN 건의 보낸 사람
+  @Prop()
+  transferFromUserId?: string;
+
+  static createInitialPoint(
+    userId: string,
+    initPoint: number,
+    options: PointLedgerOptions = {},
+  ): Partial<Point> {
     return {
       userId,
       amount: initPoint,
       type: PointType.EARN,
       description: "가입 시 기본 포인트",
+      referenceId: options.referenceId,
       expiresAt: null, // 무제한 포인트
       isActive: true,
+      remainingAmount: initPoint,
+    };
+  }
+
+  static createEarnPoint(
+    userId: string,
+    amount: number,
+    options: PointLedgerOptions = {},
+  ): Partial<Point> {
+    return {
+      userId,
+      amount,
+      type: PointType.EARN,
+      description: options.description ?? "포인트 적립",
+      referenceId: options.referenceId,
+      expiresAt: options.expiresAt ?? null,
+      isActive: true,
+      remainingAmount: amount,
+      transferFromUserId: options.transferFromUserId,
+    };
+  }
+
+  static createUsePoint(
+    userId: string,
+    amount: number,
+    options: PointLedgerOptions = {},
+    consumedLots: ConsumedLot[] = [],
+  ): Partial<Point> {
+    return {
+      userId,
+      amount,
+      type: PointType.USE,
+      description: options.description ?? "포인트 사용",
+      referenceId: options.referenceId,
+      expiresAt: null,
+      isActive: true,
+      consumedLots,
+      transferToUserId: options.transferToUserId,
+    };
+  }
+
+  static createExpirePoint(
+    userId: string,
+    amount: number,
+    options: PointLedgerOptions = {},
+    consumedLots: ConsumedLot[] = [],
+  ): Partial<Point> {
+    return {
+      userId,
+      amount,
+      type: PointType.EXPIRE,
+      description: options.description ?? "포인트 소멸",
+      referenceId: options.referenceId,
+      expiresAt: null,
+      isActive: true,
+      consumedLots,
+    };
+  }
+
+  // 원장 도입 전 잔액에만 반영된 적립/사용/소멸 내역을 옮겨 적는 건
+  static createBackfillPoint(
+    userId: string,
+    type: PointType,
+    amount: number,
+    remainingAmount = 0,
+  ): Partial<Point> {
+    return {
+      userId,
+      amount,
+      type,
+      description: "원장 도입 전 내역",
+      expiresAt: null,
+      isActive: true,
+      ...(type === PointType.EARN && { remainingAmount }),
+    };
+  }
+
+  static createRefundPoint(
+    userId: string,
+    amount: number,
+    originalReferenceId: string,
+    options: PointLedgerOptions = {},
+    restoredLots: ConsumedLot[] = [],
+  ): Partial<Point> {
+    return {
+      userId,
+      amount,
+      type: PointType.REFUND,
+      description: options.description ?? "포인트 사용 취소",
+      referenceId: options.referenceId,
+      originalReferenceId,
+      expiresAt: null,
+      isActive: true,
+      consumedLots: restoredLots,
     };
   }
 }
@@ -51,3 +234,10 @@ export const PointSchema = SchemaFactory.createForClass(Point);
 PointSchema.index({ userId: 1, createdAt: -1 });
 PointSchema.index({ userId: 1, expiresAt: 1 });
 PointSchema.index({ userId: 1, isActive: 1 });
+PointSchema.index({ userId: 1, type: 1, isActive: 1, expiresAt: 1 });
+// 멱등 키: 같은 사용자, 같은 유형의 원장에는 referenceId가 한 번만 기록된다
+// 선물로 나뉘어 적립된 건은 referenceSeq로 구분한다 (기존 인덱스는 npm run sync-indexes로 교체)
+PointSchema.index(
+  { userId: 1, type: 1, referenceId: 1, referenceSeq: 1 },
+  { unique: true, partialFilterExpression: { referenceId: { $type: "string" } } },
+);
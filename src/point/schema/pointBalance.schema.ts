@@ -1,10 +1,11 @@
 import { Prop, Schema, SchemaFactory } from "@nestjs/mongoose";
 import { Document } from "mongoose";
+import { SoftDeletable } from "../../common/repository";
 
 export type PointBalanceDocument = PointBalance & Document;
 
 @Schema({ timestamps: true })
-export class PointBalance {
+export class PointBalance implements SoftDeletable {
   id: string;
 
   @Prop({ unique: true, required: true, immutable: true })
@@ -21,6 +22,21 @@ export class PointBalance {
 
   @Prop({ default: 0 })
   expiredPoints?: number;
+
+  // 낙관적 잠금용 버전. 잔액을 변경할 때마다 1씩 증가한다
+  @Prop({ required: true, default: 0 })
+  version: number;
+
+  // 사용자 잠금 안에서 마지막으로 잔액을 변경한 임대의 fencing token
+  @Prop()
+  fencingToken?: number;
+
+  @Prop({ type: Date, default: null })
+  deletedAt?: Date | null;
+
+  // 삭제 요청을 보낸 사용자 (x-user-id)
+  @Prop({ type: String, default: null })
+  deletedBy?: string | null;
 }
 
 export const PointBalanceSchema = SchemaFactory.createForClass(PointBalance);
@@ -2,19 +2,94 @@ import { Test, TestingModule } from "@nestjs/testing";
 import { PointsService } from "./point.service";
 import { getConnectionToken, MongooseModule } from "@nestjs/mongoose";
 import { MongoMemoryReplSet } from "mongodb-memory-server";
-import { Connection, Types } from "mongoose";
+import { Connection, Types, mongo } from "mongoose";
 import { PointBalance, PointBalanceSchema } from "../schema/pointBalance.schema";
-import { Point, PointSchema } from "../schema/point.schema";
+import { Point, PointSchema, PointType } from "../schema/point.schema";
 import { PointBalanceRepository } from "../repository/pointBalance.repository";
-import { TransactionContextStorage } from "../../common/transaction/transaction.context";
+import { TransactionModule } from "../../common/transaction/transaction.module";
+import { LockModule } from "../../common/lock/lock.module";
+import { LockService } from "../../common/lock/lock.service";
+import { LockLostException } from "../../common/exception";
 import { PointRepository } from "../repository/point.repository";
-import { setTransactionModuleRef } from "../../common/decorator/transactional.decorator";
-import { ModuleRef } from "@nestjs/core";
+import { Transactional } from "../../common/decorator/transactional.decorator";
+import { Propagation } from "../../common/transaction/transaction.options";
+import {
+  IllegalTransactionStateError,
+  ReadOnlyTransactionError,
+} from "../../common/transaction/transaction.errors";
+import { Injectable } from "@nestjs/common";
+import {
+  InsufficientPointsException,
+  PointBalanceConflictException,
+  PointUsageNotFoundException,
+  RefundExceedsUsageException,
+  SelfTransferException,
+  TransferNotRefundableException,
+} from "../exception/point.exception";
+
+// 여러 PointsService 호출을 하나의 트랜잭션으로 묶는 테스트용 서비스
+@Injectable()
+class PointOrderService {
+  constructor(private readonly pointsService: PointsService) {}
+
+  @Transactional()
+  async earnAndUse(userId: string, earn: number, use: number) {
+    await this.pointsService.addPoints(userId, earn);
+    return this.pointsService.usePoints(userId, use);
+  }
+
+  @Transactional()
+  async earnAndUseThenFail(userId: string, earn: number, use: number) {
+    await this.earnAndUse(userId, earn, use);
+    throw new Error("order failed");
+  }
+
+  @Transactional({ propagation: Propagation.REQUIRES_NEW })
+  async earnIndependently(userId: string, amount: number) {
+    return this.pointsService.addPoints(userId, amount);
+  }
+
+  @Transactional()
+  async earnIndependentlyThenFail(userId: string, independent: number, joined: number) {
+    await this.earnIndependently(userId, independent);
+    await this.pointsService.addPoints(userId, joined);
+    throw new Error("order failed");
+  }
+
+  // 적립한 뒤 until이 끝날 때까지 커밋하지 않고 잔액 문서를 붙잡아 둔다
+  @Transactional()
+  async earnAndHold(userId: string, amount: number, until: Promise<void>) {
+    const balance = await this.pointsService.addPoints(userId, amount);
+    await until;
+    return balance;
+  }
+
+  @Transactional({ readOnly: true })
+  async useInReport(userId: string, amount: number) {
+    return this.pointsService.usePoints(userId, amount);
+  }
+
+  @Transactional({ readOnly: true })
+  async balanceReport(userId: string) {
+    const balance = await this.pointsService.getPointsByUserId(userId);
+    const history = await this.pointsService.getPointHistory(userId, {});
+    return { balance, history };
+  }
+
+  @Transactional({ propagation: Propagation.MANDATORY })
+  async useWithinOrder(userId: string, amount: number) {
+    return this.pointsService.usePoints(userId, amount);
+  }
+}
 
 describe(PointsService.name, () => {
   let mongod: MongoMemoryReplSet;
   let mongoConnection: Connection;
   let pointsService: PointsService;
+  let pointRepository: PointRepository;
+  let pointBalanceRepository: PointBalanceRepository;
+  let pointOrderService: PointOrderService;
+  let lockService: LockService;
 
   beforeAll(async () => {
     // MongoDB Replica Set을 사용하여 트랜잭션 지원
@@ -30,6 +105,8 @@ describe(PointsService.name, () => {
     const testModule: TestingModule = await Test.createTestingModule({
       imports: [
         MongooseModule.forRoot(uri),
+        TransactionModule.forRoot(),
+        LockModule.forRoot(),
         MongooseModule.forFeature([
           {
             name: PointBalance.name,
@@ -45,16 +122,17 @@ describe(PointsService.name, () => {
         PointBalanceRepository,
         PointRepository,
         PointsService,
-        TransactionContextStorage,
+        PointOrderService,
       ],
     }).compile();
 
     mongoConnection = testModule.get<Connection>(getConnectionToken());
     pointsService = testModule.get<PointsService>(PointsService);
-
-    // @Transactional 데코레이터를 위한 ModuleRef 설정
-    const moduleRef = testModule.get<ModuleRef>(ModuleRef);
-    setTransactionModuleRef(moduleRef);
+    pointRepository = testModule.get<PointRepository>(PointRepository);
+    pointBalanceRepository =
+      testModule.get<PointBalanceRepository>(PointBalanceRepository);
+    pointOrderService = testModule.get<PointOrderService>(PointOrderService);
+    lockService = testModule.get<LockService>(LockService);
   });
 
   afterEach(async () => {
@@ -152,6 +230,26 @@ describe(PointsService.name, () => {
       // Repository should handle the point addition logic
     });
 
+    test("should write EARN ledger entry with description and referenceId", async () => {
+      // Given
+      const userId = new Types.ObjectId().toString();
+      await pointsService.createPointBalance(userId, 1000);
+
+      // When
+      await pointsService.addPoints(userId, 500, {
+        description: "이벤트 적립",
+        referenceId: "event-1",
+      });
+
+      // Then
+      const ledger = await pointRepository.find({ userId, type: PointType.EARN });
+      expect(ledger).toHaveLength(2); // 가입 기본 포인트 + 적립
+      const earned = ledger.find((point) => point.referenceId === "event-1");
+      expect(earned).toBeDefined();
+      expect(earned!.amount).toBe(500);
+      expect(earned!.description).toBe("이벤트 적립");
+    });
+
     test("should throw error when adding points to non-existing user", async () => {
       // Given
       const userId = new Types.ObjectId().toString();
@@ -180,6 +278,66 @@ describe(PointsService.name, () => {
       // Repository should handle the point deduction logic
     });
 
+    test("should write USE ledger entry", async () => {
+      // Given
+      const userId = new Types.ObjectId().toString();
+      await pointsService.createPointBalance(userId, 1000);
+
+      // When
+      await pointsService.usePoints(userId, 300, { referenceId: "order-1" });
+
+      // Then
+      const ledger = await pointRepository.find({ userId, type: PointType.USE });
+      expect(ledger).toHaveLength(1);
+      expect(ledger[0].amount).toBe(300);
+      expect(ledger[0].referenceId).toBe("order-1");
+    });
+
+    test("should consume lots soonest-expiring first and unlimited lots last", async () => {
+      // Given
+      const DAY = 24 * 60 * 60 * 1000;
+      const userId = new Types.ObjectId().toString();
+      await pointsService.createPointBalance(userId, 100); // 무제한
+      await pointsService.addPoints(userId, 100, {
+        expiresAt: new Date(Date.now() + 10 * DAY),
+      });
+      await pointsService.addPoints(userId, 100, {
+        expiresAt: new Date(Date.now() + 5 * DAY),
+      });
+
+      // When
+      await pointsService.usePoints(userId, 150);
+
+      // Then
+      const lots = await pointRepository.find({ userId, type: PointType.EARN });
+      const remainingByExpiry = lots
+        .sort(
+          (a, b) =>
+            (a.expiresAt?.getTime() ?? Infinity) - (b.expiresAt?.getTime() ?? Infinity),
+        )
+        .map((lot) => lot.remainingAmount);
+      expect(remainingByExpiry).toEqual([0, 50, 100]);
+
+      const [useEntry] = await pointRepository.find({ userId, type: PointType.USE });
+      expect(useEntry.consumedLots).toHaveLength(2);
+      expect(useEntry.consumedLots!.map((lot) => lot.amount)).toEqual([100, 50]);
+    });
+
+    test("should not write ledger entry when points are insufficient", async () => {
+      // Given
+      const userId = new Types.ObjectId().toString();
+      await pointsService.createPointBalance(userId, 100);
+
+      // When
+      await expect(pointsService.usePoints(userId, 300)).rejects.toThrow(
+        "Insufficient points",
+      );
+
+      // Then
+      const ledger = await pointRepository.find({ userId, type: PointType.USE });
+      expect(ledger).toHaveLength(0);
+    });
+
     test("should throw error when user does not exist", async () => {
       // Given
       const userId = new Types.ObjectId().toString();
@@ -204,6 +362,638 @@ describe(PointsService.name, () => {
     });
   });
 
+  describe("concurrency", () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    test("should raise a retryable conflict when the balance changed after reading", async () => {
+      // Given : 이전 버전의 잔액을 읽은 상황
+      const userId = new Types.ObjectId().toString();
+      await pointsService.createPointBalance(userId, 1000);
+      const stale = await pointBalanceRepository.findByUserId(userId);
+      await pointsService.addPoints(userId, 100);
+      jest.spyOn(pointBalanceRepository, "findByUserId").mockResolvedValueOnce(stale);
+
+      // When & Then
+      const error = await pointsService.usePoints(userId, 100).catch((e: unknown) => e);
+      expect(error).toBeInstanceOf(PointBalanceConflictException);
+      expect((error as PointBalanceConflictException).retryable).toBe(true);
+
+      const balance = await pointsService.getPointsByUserId(userId);
+      expect(balance!.availablePoints).toBe(1100);
+      expect(balance!.usedPoints).toBe(0);
+    });
+
+    test("should never overdraw with concurrent usePoints calls", async () => {
+      // Given
+      const userId = new Types.ObjectId().toString();
+      await pointsService.createPointBalance(userId, 1000);
+
+      // When : 합계가 잔액을 넘는 동시 사용
+      const results = await Promise.allSettled([
+        pointsService.usePoints(userId, 700),
+        pointsService.usePoints(userId, 700),
+      ]);
+
+      // Then : 하나만 성공하고 잔액은 음수가 되지 않아야 한다
+      expect(results.filter((r) => r.status === "fulfilled")).toHaveLength(1);
+      const balance = await pointsService.getPointsByUserId(userId);
+      expect(balance!.availablePoints).toBe(300);
+      expect(balance!.usedPoints).toBe(700);
+    });
+
+    test("should retry a transaction that hit a write conflict", async () => {
+      // Given : 다른 트랜잭션이 같은 잔액 문서를 수정한 채 커밋하지 않은 상황
+      const userId = new Types.ObjectId().toString();
+      await pointsService.createPointBalance(userId, 1000);
+      let release!: () => void;
+      const held = new Promise<void>((resolve) => (release = resolve));
+      const holding = pointOrderService.earnAndHold(userId, 100, held);
+      await new Promise((resolve) => setTimeout(resolve, 200));
+
+      // 충돌한 쓰기 오류를 기록하고 붙잡아 둔 트랜잭션을 커밋시킨다
+      const conflicts: unknown[] = [];
+      const earnPoint = pointBalanceRepository.earnPoint.bind(pointBalanceRepository);
+      jest
+        .spyOn(pointBalanceRepository, "earnPoint")
+        .mockImplementation(async (...args) => {
+          try {
+            return await earnPoint(...args);
+          } catch (error) {
+            conflicts.push(error);
+            release();
+            throw error;
+          }
+        });
+
+      // When
+      const result = await pointsService.addPoints(userId, 200);
+      await holding;
+
+      // Then : 레이블이 유지된 WriteConflict로 재시도되어 두 적립 모두 반영되어야 한다
+      expect(conflicts.length).toBeGreaterThan(0);
+      expect(conflicts[0]).toBeInstanceOf(mongo.MongoServerError);
+      expect(
+        (conflicts[0] as mongo.MongoServerError).hasErrorLabel(
+          "TransientTransactionError",
+        ),
+      ).toBe(true);
+      expect(result!.availablePoints).toBe(1300);
+      const balance = await pointsService.getPointsByUserId(userId);
+      expect(balance!.availablePoints).toBe(1300);
+    });
+
+    test("should raise a retryable conflict when a write conflict outlasts the retries", async () => {
+      // Given : 다른 트랜잭션이 잔액 문서를 계속 붙잡고 있는 상황
+      const userId = new Types.ObjectId().toString();
+      await pointsService.createPointBalance(userId, 1000);
+      let release!: () => void;
+      const held = new Promise<void>((resolve) => (release = resolve));
+      const holding = pointOrderService.earnAndHold(userId, 100, held);
+      await new Promise((resolve) => setTimeout(resolve, 200));
+      const usePoint = jest.spyOn(pointBalanceRepository, "usePoint");
+
+      // When
+      const error = await pointsService.usePoints(userId, 300).catch((e: unknown) => e);
+      release();
+      await holding;
+
+      // Then : 재시도를 모두 소진하면 500이 아니라 재시도 가능한 충돌로 알린다
+      expect(error).toBeInstanceOf(PointBalanceConflictException);
+      expect((error as PointBalanceConflictException).retryable).toBe(true);
+      expect(usePoint.mock.calls.length).toBeGreaterThan(1);
+      const balance = await pointsService.getPointsByUserId(userId);
+      expect(balance!.availablePoints).toBe(1100);
+      expect(balance!.usedPoints).toBe(0);
+    });
+
+    test("should wait for the user lock held by another instance", async () => {
+      // Given : 다른 인스턴스가 사용자 잠금을 잡고 있는 상황
+      const userId = new Types.ObjectId().toString();
+      await pointsService.createPointBalance(userId, 1000);
+      const lease = await lockService.tryAcquire(`user:${userId}`);
+
+      // When
+      const using = pointsService.usePoints(userId, 300);
+      await new Promise((resolve) => setTimeout(resolve, 200));
+      const whileLocked = await pointsService.getPointsByUserId(userId);
+      await lockService.release(lease!);
+
+      // Then : 잠금이 풀린 뒤에 차감되어야 한다
+      expect(whileLocked!.availablePoints).toBe(1000);
+      expect((await using)!.availablePoints).toBe(700);
+    });
+
+    test("should reject a write from a holder whose lease expired and was taken over", async () => {
+      // Given : 잠금을 잡은 채 멈춘 사이 임대가 만료된 상황
+      const userId = new Types.ObjectId().toString();
+      await pointsService.createPointBalance(userId, 1000);
+      let resume!: () => void;
+      const paused = new Promise<void>((resolve) => (resume = resolve));
+      const staleHolder = lockService.withLock(
+        `user:${userId}`,
+        async () => {
+          await paused;
+          return pointsService.usePoints(userId, 300);
+        },
+        { ttlMs: 100 },
+      );
+      await new Promise((resolve) => setTimeout(resolve, 200));
+
+      // When : 다음 소유자가 잠금을 얻어 먼저 차감한 뒤 이전 소유자가 깨어남
+      await pointsService.usePoints(userId, 300);
+      resume();
+
+      // Then : 이전 소유자의 차감은 거부되어야 한다
+      await expect(staleHolder).rejects.toThrow(LockLostException);
+      const balance = await pointsService.getPointsByUserId(userId);
+      expect(balance!.availablePoints).toBe(700);
+      expect(balance!.usedPoints).toBe(300);
+    });
+
+    test("should reject an earn from a holder whose lease was taken over", async () => {
+      // Given : 잠금을 잡은 채 멈춘 사이 임대가 만료된 상황
+      const userId = new Types.ObjectId().toString();
+      await pointsService.createPointBalance(userId, 1000);
+      let resume!: () => void;
+      const paused = new Promise<void>((resolve) => (resume = resolve));
+      const staleHolder = lockService.withLock(
+        `user:${userId}`,
+        async () => {
+          await paused;
+          return pointsService.addPoints(userId, 500);
+        },
+        { ttlMs: 100 },
+      );
+      await new Promise((resolve) => setTimeout(resolve, 200));
+
+      // When : 다음 소유자가 차감한 뒤 이전 소유자가 같은 사용자에게 적립
+      await pointsService.usePoints(userId, 300);
+      resume();
+
+      // Then : upsert로 새 잔액을 만들지 않고 잠금을 잃었다고 알려야 한다
+      await expect(staleHolder).rejects.toThrow(LockLostException);
+      const balance = await pointsService.getPointsByUserId(userId);
+      expect(balance!.availablePoints).toBe(700);
+      expect(await pointBalanceRepository.count({ userId })).toBe(1);
+    });
+  });
+
+  describe("transferPoints", () => {
+    test("should move points and write paired ledger entries", async () => {
+      // Given
+      const sender = new Types.ObjectId().toString();
+      const receiver = new Types.ObjectId().toString();
+      await pointsService.createPointBalance(sender, 1000);
+      await pointsService.createPointBalance(receiver, 100);
+
+      // When
+      const result = await pointsService.transferPoints(sender, receiver, 300);
+
+      // Then
+      expect(result.from!.availablePoints).toBe(700);
+      expect(result.from!.usedPoints).toBe(300);
+      expect(result.to!.availablePoints).toBe(400);
+
+      const [useEntry] = await pointRepository.find({
+        userId: sender,
+        type: PointType.USE,
+      });
+      const [earnEntry] = await pointRepository.find({
+        userId: receiver,
+        referenceId: result.referenceId,
+      });
+      expect(useEntry.referenceId).toBe(result.referenceId);
+      expect(useEntry.transferToUserId).toBe(receiver);
+      expect(earnEntry.type).toBe(PointType.EARN);
+      expect(earnEntry.transferFromUserId).toBe(sender);
+      expect(earnEntry.amount).toBe(300);
+    });
+
+    test("should carry over the earliest expiry of transferred lots", async () => {
+      // Given
+      const sender = new Types.ObjectId().toString();
+      const receiver = new Types.ObjectId().toString();
+      const expiresAt = new Date(Date.now() + 24 * 60 * 60 * 1000);
+      await pointsService.createPointBalance(sender, 0);
+      await pointsService.createPointBalance(receiver, 0);
+      await pointsService.addPoints(sender, 500, { expiresAt });
+
+      // When
+      const result = await pointsService.transferPoints(sender, receiver, 200);
+
+      // Then
+      const [earnEntry] = await pointRepository.find({
+        userId: receiver,
+        referenceId: result.referenceId,
+      });
+      expect(earnEntry.expiresAt!.getTime()).toBe(expiresAt.getTime());
+    });
+
+    test("should credit one lot per expiry of the transferred lots", async () => {
+      // Given : 내일 만료되는 10포인트와 만료 없는 990포인트를 가진 보낸 사람
+      const sender = new Types.ObjectId().toString();
+      const receiver = new Types.ObjectId().toString();
+      const expiresAt = new Date(Date.now() + 24 * 60 * 60 * 1000);
+      await pointsService.createPointBalance(sender, 0);
+      await pointsService.createPointBalance(receiver, 0);
+      await pointsService.addPoints(sender, 10, { expiresAt });
+      await pointsService.addPoints(sender, 990);
+
+      // When
+      const result = await pointsService.transferPoints(sender, receiver, 1000, {
+        referenceId: "gift-mixed",
+      });
+
+      // Then : 만료일별로 나뉜 적립 건이 같은 referenceId를 가져야 한다
+      expect(result.to!.availablePoints).toBe(1000);
+      const earnEntries = await pointRepository.find(
+        { userId: receiver, referenceId: "gift-mixed" },
+        { sort: { referenceSeq: 1 } },
+      );
+      expect(
+        earnEntries.map((entry) => [entry.amount, entry.expiresAt?.getTime() ?? null]),
+      ).toEqual([
+        [10, expiresAt.getTime()],
+        [990, null],
+      ]);
+      expect(earnEntries.every((entry) => entry.transferFromUserId === sender)).toBe(
+        true,
+      );
+
+      const replayed = await pointsService.transferPoints(sender, receiver, 1000, {
+        referenceId: "gift-mixed",
+      });
+      expect(replayed.to!.availablePoints).toBe(1000);
+    });
+
+    test("should reject transfer to the same user", async () => {
+      // Given
+      const userId = new Types.ObjectId().toString();
+      await pointsService.createPointBalance(userId, 1000);
+
+      // When & Then
+      await expect(pointsService.transferPoints(userId, userId, 100)).rejects.toThrow(
+        SelfTransferException,
+      );
+    });
+
+    test("should roll back when sender has insufficient points", async () => {
+      // Given
+      const sender = new Types.ObjectId().toString();
+      const receiver = new Types.ObjectId().toString();
+      await pointsService.createPointBalance(sender, 100);
+      await pointsService.createPointBalance(receiver, 100);
+
+      // When
+      await expect(pointsService.transferPoints(sender, receiver, 300)).rejects.toThrow(
+        InsufficientPointsException,
+      );
+
+      // Then
+      const receiverBalance = await pointsService.getPointsByUserId(receiver);
+      expect(receiverBalance!.availablePoints).toBe(100);
+    });
+
+    test("should replay transfer with the same referenceId", async () => {
+      // Given
+      const sender = new Types.ObjectId().toString();
+      const receiver = new Types.ObjectId().toString();
+      await pointsService.createPointBalance(sender, 1000);
+      await pointsService.createPointBalance(receiver, 0);
+      await pointsService.transferPoints(sender, receiver, 300, {
+        referenceId: "gift-1",
+      });
+
+      // When
+      const replayed = await pointsService.transferPoints(sender, receiver, 300, {
+        referenceId: "gift-1",
+      });
+
+      // Then
+      expect(replayed.from!.availablePoints).toBe(700);
+      const senderBalance = await pointsService.getPointsByUserId(sender);
+      expect(senderBalance!.availablePoints).toBe(700);
+    });
+  });
+
+  describe("refundPoints", () => {
+    test("should fully refund a usage and restore consumed lots", async () => {
+      // Given
+      const userId = new Types.ObjectId().toString();
+      await pointsService.createPointBalance(userId, 1000);
+      await pointsService.usePoints(userId, 300, { referenceId: "order-1" });
+
+      // When
+      const result = await pointsService.refundPoints(userId, "order-1");
+
+      // Then
+      expect(result!.availablePoints).toBe(1000);
+      expect(result!.usedPoints).toBe(0);
+      const [lot] = await pointRepository.find({ userId, type: PointType.EARN });
+      expect(lot.remainingAmount).toBe(1000);
+      const [refund] = await pointRepository.find({ userId, type: PointType.REFUND });
+      expect(refund.amount).toBe(300);
+      expect(refund.originalReferenceId).toBe("order-1");
+    });
+
+    test("should restore lots with their original expiry, latest consumed first", async () => {
+      // Given
+      const DAY = 24 * 60 * 60 * 1000;
+      const userId = new Types.ObjectId().toString();
+      const sooner = new Date(Date.now() + 5 * DAY);
+      const later = new Date(Date.now() + 10 * DAY);
+      await pointsService.createPointBalance(userId, 0);
+      await pointsService.addPoints(userId, 100, { expiresAt: sooner });
+      await pointsService.addPoints(userId, 100, { expiresAt: later });
+      await pointsService.usePoints(userId, 150, { referenceId: "order-1" });
+
+      // When
+      await pointsService.refundPoints(userId, "order-1", 70);
+
+      // Then
+      const lots = await pointRepository.find({ userId, type: PointType.EARN });
+      const soonerLot = lots.find((lot) => lot.expiresAt?.getTime() === sooner.getTime());
+      const laterLot = lots.find((lot) => lot.expiresAt?.getTime() === later.getTime());
+      expect(laterLot!.remainingAmount).toBe(100);
+      expect(soonerLot!.remainingAmount).toBe(20);
+    });
+
+    test("should allow partial refunds up to the used amount", async () => {
+      // Given
+      const userId = new Types.ObjectId().toString();
+      await pointsService.createPointBalance(userId, 1000);
+      await pointsService.usePoints(userId, 300, { referenceId: "order-1" });
+
+      // When
+      await pointsService.refundPoints(userId, "order-1", 100);
+      const result = await pointsService.refundPoints(userId, "order-1", 200);
+
+      // Then
+      expect(result!.availablePoints).toBe(1000);
+      await expect(pointsService.refundPoints(userId, "order-1", 1)).rejects.toThrow(
+        RefundExceedsUsageException,
+      );
+    });
+
+    test("should not refund twice with the same refund key", async () => {
+      // Given
+      const userId = new Types.ObjectId().toString();
+      await pointsService.createPointBalance(userId, 1000);
+      await pointsService.usePoints(userId, 300, { referenceId: "order-1" });
+      await pointsService.refundPoints(userId, "order-1", 100, {
+        referenceId: "cancel-1",
+      });
+
+      // When
+      const replayed = await pointsService.refundPoints(userId, "order-1", 100, {
+        referenceId: "cancel-1",
+      });
+
+      // Then
+      expect(replayed!.availablePoints).toBe(800);
+      const balance = await pointsService.getPointsByUserId(userId);
+      expect(balance!.usedPoints).toBe(200);
+    });
+
+    test("should refuse to refund the sender side of a transfer", async () => {
+      // Given
+      const sender = new Types.ObjectId().toString();
+      const receiver = new Types.ObjectId().toString();
+      await pointsService.createPointBalance(sender, 1000);
+      await pointsService.createPointBalance(receiver, 0);
+      await pointsService.transferPoints(sender, receiver, 300, {
+        referenceId: "gift-1",
+      });
+
+      // When & Then
+      await expect(pointsService.refundPoints(sender, "gift-1")).rejects.toThrow(
+        TransferNotRefundableException,
+      );
+      const senderBalance = await pointsService.getPointsByUserId(sender);
+      const receiverBalance = await pointsService.getPointsByUserId(receiver);
+      expect(senderBalance!.availablePoints).toBe(700);
+      expect(receiverBalance!.availablePoints).toBe(300);
+    });
+
+    test("should throw error when usage does not exist", async () => {
+      // Given
+      const userId = new Types.ObjectId().toString();
+      await pointsService.createPointBalance(userId, 1000);
+
+      // When & Then
+      await expect(pointsService.refundPoints(userId, "unknown")).rejects.toThrow(
+        PointUsageNotFoundException,
+      );
+    });
+  });
+
+  describe("idempotency", () => {
+    test("should return original balance when earn is replayed", async () => {
+      // Given
+      const userId = new Types.ObjectId().toString();
+      await pointsService.createPointBalance(userId, 1000);
+      const first = await pointsService.addPoints(userId, 500, { referenceId: "earn-1" });
+
+      // When
+      const replayed = await pointsService.addPoints(userId, 500, {
+        referenceId: "earn-1",
+      });
+
+      // Then
+      expect(replayed!.totalPoints).toBe(first!.totalPoints);
+      expect(replayed!.availablePoints).toBe(1500);
+      const balance = await pointsService.getPointsByUserId(userId);
+      expect(balance!.availablePoints).toBe(1500);
+      const ledger = await pointRepository.find({ userId, referenceId: "earn-1" });
+      expect(ledger).toHaveLength(1);
+    });
+
+    test("should return original balance when use is replayed", async () => {
+      // Given
+      const userId = new Types.ObjectId().toString();
+      await pointsService.createPointBalance(userId, 1000);
+      await pointsService.usePoints(userId, 300, { referenceId: "order-1" });
+      await pointsService.addPoints(userId, 100);
+
+      // When
+      const replayed = await pointsService.usePoints(userId, 300, {
+        referenceId: "order-1",
+      });
+
+      // Then
+      expect(replayed!.availablePoints).toBe(700);
+      const balance = await pointsService.getPointsByUserId(userId);
+      expect(balance!.availablePoints).toBe(800);
+      expect(balance!.usedPoints).toBe(300);
+    });
+
+    test("should return the same response as the original request", async () => {
+      // Given : 생성, 적립, 사용, 선물 요청을 한 번씩 처리한 상태
+      const userId = new Types.ObjectId().toString();
+      const receiver = new Types.ObjectId().toString();
+      const requests = [
+        () => pointsService.createPointBalance(userId, 1000, { referenceId: "same-1" }),
+        () => pointsService.addPoints(userId, 500, { referenceId: "same-2" }),
+        () => pointsService.usePoints(userId, 300, { referenceId: "same-3" }),
+        () =>
+          pointsService.transferPoints(userId, receiver, 200, { referenceId: "same-4" }),
+      ];
+      await pointsService.createPointBalance(receiver, 0);
+      const firsts: unknown[] = [];
+      for (const request of requests) {
+        firsts.push(await request());
+      }
+
+      // When
+      const replays: unknown[] = [];
+      for (const request of requests) {
+        replays.push(await request());
+      }
+
+      // Then
+      expect(replays).toEqual(firsts);
+    });
+
+    test("should return original balance when create is replayed", async () => {
+      // Given
+      const userId = new Types.ObjectId().toString();
+      await pointsService.createPointBalance(userId, 1000, { referenceId: "signup-1" });
+
+      // When
+      const replayed = await pointsService.createPointBalance(userId, 1000, {
+        referenceId: "signup-1",
+      });
+
+      // Then
+      expect(replayed!.userId).toBe(userId);
+      expect(replayed!.availablePoints).toBe(1000);
+    });
+
+    test("should replay a concurrent request that committed the same key first", async () => {
+      // Given : 먼저 처리된 요청이 커밋되기 전에 재처리 여부를 확인한 상황
+      const userId = new Types.ObjectId().toString();
+      await pointsService.createPointBalance(userId, 1000);
+      const first = await pointsService.addPoints(userId, 500, { referenceId: "earn-1" });
+      jest.spyOn(pointRepository, "findByReference").mockResolvedValueOnce(null);
+
+      // When
+      const replayed = await pointsService.addPoints(userId, 500, {
+        referenceId: "earn-1",
+      });
+      jest.restoreAllMocks();
+
+      // Then : unique 인덱스 충돌 후 다시 실행되어 원래 결과를 돌려줘야 한다
+      expect(replayed!.availablePoints).toBe(first!.availablePoints);
+      const balance = await pointsService.getPointsByUserId(userId);
+      expect(balance!.availablePoints).toBe(1500);
+      const ledger = await pointRepository.find({ userId, referenceId: "earn-1" });
+      expect(ledger).toHaveLength(1);
+    });
+
+    test("should reject a reused key with a different amount", async () => {
+      // Given
+      const userId = new Types.ObjectId().toString();
+      await pointsService.createPointBalance(userId, 1000);
+      await pointsService.addPoints(userId, 500, { referenceId: "earn-1" });
+
+      // When & Then
+      await expect(
+        pointsService.addPoints(userId, 700, { referenceId: "earn-1" }),
+      ).rejects.toThrow("Idempotency key already used for a different request");
+    });
+  });
+
+  describe("transaction propagation", () => {
+    test("should join the outer transaction across service methods", async () => {
+      // Given
+      const userId = new Types.ObjectId().toString();
+      await pointsService.createPointBalance(userId, 1000);
+
+      // When
+      const result = await pointOrderService.earnAndUse(userId, 500, 300);
+
+      // Then
+      expect(result!.availablePoints).toBe(1200);
+      const ledger = await pointRepository.find({ userId });
+      expect(ledger).toHaveLength(3);
+    });
+
+    test("should roll back every joined call when the outer transaction fails", async () => {
+      // Given
+      const userId = new Types.ObjectId().toString();
+      await pointsService.createPointBalance(userId, 1000);
+
+      // When & Then
+      await expect(
+        pointOrderService.earnAndUseThenFail(userId, 500, 300),
+      ).rejects.toThrow("order failed");
+
+      const balance = await pointsService.getPointsByUserId(userId);
+      expect(balance!.availablePoints).toBe(1000);
+      expect(balance!.usedPoints).toBe(0);
+      const ledger = await pointRepository.find({ userId });
+      expect(ledger).toHaveLength(1);
+    });
+
+    test("should keep REQUIRES_NEW changes when the outer transaction fails", async () => {
+      // Given
+      const userId = new Types.ObjectId().toString();
+      await pointsService.createPointBalance(userId, 1000);
+
+      // When & Then
+      await expect(
+        pointOrderService.earnIndependentlyThenFail(userId, 100, 200),
+      ).rejects.toThrow("order failed");
+
+      const balance = await pointsService.getPointsByUserId(userId);
+      expect(balance!.availablePoints).toBe(1100);
+      const earnEntries = await pointRepository.find({ userId, type: PointType.EARN });
+      expect(earnEntries).toHaveLength(2);
+    });
+
+    test("should read balance and history in a read-only snapshot", async () => {
+      // Given
+      const userId = new Types.ObjectId().toString();
+      await pointsService.createPointBalance(userId, 1000);
+      await pointsService.usePoints(userId, 100);
+
+      // When
+      const report = await pointOrderService.balanceReport(userId);
+
+      // Then
+      expect(report.balance!.availablePoints).toBe(900);
+      expect(report.history.data).toHaveLength(2);
+    });
+
+    test("should reject writes from a read-only transaction", async () => {
+      // Given
+      const userId = new Types.ObjectId().toString();
+      await pointsService.createPointBalance(userId, 1000);
+
+      // When & Then
+      await expect(pointOrderService.useInReport(userId, 100)).rejects.toThrow(
+        ReadOnlyTransactionError,
+      );
+      const balance = await pointsService.getPointsByUserId(userId);
+      expect(balance!.usedPoints).toBe(0);
+    });
+
+    test("should reject MANDATORY calls outside of a transaction", async () => {
+      // Given
+      const userId = new Types.ObjectId().toString();
+      await pointsService.createPointBalance(userId, 1000);
+
+      // When & Then
+      await expect(pointOrderService.useWithinOrder(userId, 100)).rejects.toThrow(
+        IllegalTransactionStateError,
+      );
+      const balance = await pointsService.getPointsByUserId(userId);
+      expect(balance!.usedPoints).toBe(0);
+    });
+  });
+
   describe("deletePoints", () => {
     test("should delete points for existing user", async () => {
       // Given
@@ -218,6 +1008,40 @@ describe(PointsService.name, () => {
       expect(result!.userId).toBe(userId);
     });
 
+    test("should soft delete the balance and keep the ledger", async () => {
+      // Given
+      const userId = new Types.ObjectId().toString();
+      await pointsService.createPointBalance(userId, 1000);
+
+      // When
+      await pointsService.deletePoints(userId);
+
+      // Then : 잔액은 조회되지 않지만 원장은 남아 있어야 한다
+      expect(await pointsService.getPointsByUserId(userId)).toBeNull();
+      expect(await pointRepository.find({ userId })).toHaveLength(1);
+    });
+
+    test("should restore a deleted balance when it is created again", async () => {
+      // Given : 포인트를 일부 사용한 뒤 삭제된 사용자
+      const userId = new Types.ObjectId().toString();
+      await pointsService.createPointBalance(userId, 1000);
+      await pointsService.usePoints(userId, 300);
+      await pointsService.deletePoints(userId);
+
+      // When
+      const created = await pointsService.createPointBalance(userId, 500);
+
+      // Then : 남아 있던 포인트에 initPoint가 더해지고 이후 요청도 처리되어야 한다
+      expect(created!.availablePoints).toBe(1200);
+      expect(created!.usedPoints).toBe(300);
+      const balance = await pointsService.addPoints(userId, 100);
+      expect(balance!.availablePoints).toBe(1300);
+      expect(await pointRepository.find({ userId })).toHaveLength(4);
+      await expect(pointsService.createPointBalance(userId, 500)).rejects.toThrow(
+        "Points already exist for this user",
+      );
+    });
+
     test("should throw error when deleting points for non-existing user", async () => {
       // Given
       const userId = new Types.ObjectId().toString();
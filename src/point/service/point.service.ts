@@ -1,9 +1,48 @@
 import { Injectable } from "@nestjs/common";
+import { randomUUID } from "crypto";
+import { mongo, Types } from "mongoose";
 import { PointBalanceRepository } from "../repository/pointBalance.repository";
 import { PointBalance } from "../schema/pointBalance.schema";
 import { Transactional } from "../../common/decorator/transactional.decorator";
+import { WithUserLock } from "../../common/decorator/withUserLock.decorator";
 import { PointRepository } from "../repository/point.repository";
-import { Point, PointType } from "../schema/point.schema";
+import { CursorPage } from "../../common/repository";
+import {
+  isRetryableTransactionError,
+  TRANSIENT_TRANSACTION_ERROR,
+} from "../../common/transaction/transaction.errors";
+import { FindPointsDto } from "../dto/find.point.dto";
+import {
+  BalanceSnapshot,
+  ConsumedLot,
+  Point,
+  PointLedgerOptions,
+  PointType,
+} from "../schema/point.schema";
+import {
+  IdempotencyKeyConflictException,
+  InsufficientPointsException,
+  PointBalanceAlreadyExistsException,
+  PointBalanceConflictException,
+  PointBalanceNotFoundException,
+  PointUsageNotFoundException,
+  RefundExceedsUsageException,
+  SelfTransferException,
+  TransferNotRefundableException,
+} from "../exception/point.exception";
+
+const DUPLICATE_KEY_ERROR = 11000;
+
+// 잔액을 바꾸는 요청의 응답. 멱등 재요청에도 원장의 balanceSnapshot으로 같은 응답을 만든다
+export interface PointBalanceResult extends BalanceSnapshot {
+  userId: string;
+}
+
+export interface PointTransferResult {
+  referenceId: string;
+  from: PointBalanceResult | null;
+  to: PointBalanceResult | null;
+}
 
 @Injectable()
 export class PointsService {
@@ -17,40 +56,215 @@ export class PointsService {
   async createPointBalance(
     userId: string,
     initPoint: number,
-  ): Promise<PointBalance | null> {
+    options: PointLedgerOptions = {},
+  ): Promise<PointBalanceResult | null> {
+    const replayed = await this.findReplayedBalance(
+      userId,
+      PointType.EARN,
+      initPoint,
+      options.referenceId,
+    );
+    if (replayed) return replayed;
+
     const existingPoints = await this.pointsBalanceRepository.exist(userId);
     if (existingPoints) {
-      throw new Error("Points already exist for this user");
+      throw new PointBalanceAlreadyExistsException(userId);
     }
 
-    const balance = await this.pointsBalanceRepository.createUserBalance(
-      userId,
-      initPoint,
-    );
+    // 삭제된 잔액은 userId 유일 인덱스를 차지하므로 되살린 뒤 initPoint를 적립한다
+    // 남아 있던 포인트도 함께 되살아나 원장과 잔액이 계속 일치한다
+    const restored = await this.pointsBalanceRepository.restoreByUserId(userId);
+    const balance = restored
+      ? await this.pointsBalanceRepository.earnPoint(userId, initPoint)
+      : await this.pointsBalanceRepository.createUserBalance(userId, initPoint);
 
-    const pointData = Point.createInitialPoint(userId, initPoint);
+    const pointData = Point.createInitialPoint(userId, initPoint, options);
 
-    await this.pointRepository.create(pointData);
-    return balance;
+    await this.writeLedger(pointData, balance);
+    return this.toBalanceResult(userId, balance);
   }
 
   async getPointsByUserId(userId: string): Promise<PointBalance | null> {
     return await this.pointsBalanceRepository.findByUserId(userId);
   }
 
+  async getPointHistory(
+    userId: string,
+    query: FindPointsDto,
+  ): Promise<CursorPage<Point>> {
+    const { cursor, limit, ...filter } = query;
+    return await this.pointRepository.findHistory(userId, filter, cursor, limit);
+  }
+
   @Transactional()
-  async addPoints(userId: string, amount: number): Promise<PointBalance | null> {
+  async addPoints(
+    userId: string,
+    amount: number,
+    options: PointLedgerOptions = {},
+  ): Promise<PointBalanceResult | null> {
+    const replayed = await this.findReplayedBalance(
+      userId,
+      PointType.EARN,
+      amount,
+      options.referenceId,
+    );
+    if (replayed) return replayed;
+
     await this.existingPointsCheck(userId);
-    return this.pointsBalanceRepository.earnPoint(userId, amount);
+    const balance = await this.credit(userId, amount, options);
+    return this.toBalanceResult(userId, balance);
   }
 
+  @WithUserLock(0)
   @Transactional()
-  async usePoints(userId: string, amount: number): Promise<PointBalance | null> {
-    const userPoints = await this.existingPointsCheck(userId);
-    if (userPoints.availablePoints < amount) {
-      throw new Error("Insufficient points");
+  async usePoints(
+    userId: string,
+    amount: number,
+    options: PointLedgerOptions = {},
+  ): Promise<PointBalanceResult | null> {
+    const replayed = await this.findReplayedBalance(
+      userId,
+      PointType.USE,
+      amount,
+      options.referenceId,
+    );
+    if (replayed) return replayed;
+
+    const { balance } = await this.debit(userId, amount, options);
+    return this.toBalanceResult(userId, balance);
+  }
+
+  // 보낸 사람의 USE 건과 받은 사람의 EARN 건은 같은 referenceId를 공유한다
+  @WithUserLock(0)
+  @Transactional()
+  async transferPoints(
+    fromUserId: string,
+    toUserId: string,
+    amount: number,
+    options: PointLedgerOptions = {},
+  ): Promise<PointTransferResult> {
+    if (fromUserId === toUserId) {
+      throw new SelfTransferException(fromUserId);
+    }
+
+    const replayedFrom = await this.findReplayedBalance(
+      fromUserId,
+      PointType.USE,
+      amount,
+      options.referenceId,
+    );
+    // 받은 쪽은 만료일별로 나뉘어 적립되므로 금액은 보낸 쪽에서만 비교한다
+    const replayedTo = await this.findReplayedBalance(
+      toUserId,
+      PointType.EARN,
+      undefined,
+      options.referenceId,
+    );
+    if (replayedFrom && replayedTo) {
+      return { referenceId: options.referenceId!, from: replayedFrom, to: replayedTo };
+    }
+    if (replayedFrom || replayedTo) {
+      throw new IdempotencyKeyConflictException(options.referenceId!);
+    }
+
+    const referenceId = options.referenceId ?? randomUUID();
+    await this.existingPointsCheck(toUserId);
+
+    const debited = await this.debit(fromUserId, amount, {
+      description: options.description ?? "포인트 선물 보냄",
+      referenceId,
+      transferToUserId: toUserId,
+    });
+    const to = await this.creditTransferredLots(toUserId, amount, debited.consumedLots, {
+      description: options.description ?? "포인트 선물 받음",
+      referenceId,
+      transferFromUserId: fromUserId,
+    });
+
+    return {
+      referenceId,
+      from: this.toBalanceResult(fromUserId, debited.balance),
+      to: this.toBalanceResult(toUserId, to),
+    };
+  }
+
+  // 특정 USE 건(originalReferenceId)을 전액 또는 부분 환불하고 차감했던 적립 건을 되돌린다
+  @WithUserLock(0)
+  @Transactional()
+  async refundPoints(
+    userId: string,
+    originalReferenceId: string,
+    amount?: number,
+    options: PointLedgerOptions = {},
+  ): Promise<PointBalanceResult | null> {
+    const replayed = await this.findReplayedBalance(
+      userId,
+      PointType.REFUND,
+      amount,
+      options.referenceId,
+    );
+    if (replayed) return replayed;
+
+    const useEntry = await this.pointRepository.findByReference(
+      userId,
+      PointType.USE,
+      originalReferenceId,
+    );
+    if (!useEntry) {
+      throw new PointUsageNotFoundException(userId, originalReferenceId);
+    }
+    if (useEntry.transferToUserId) {
+      throw new TransferNotRefundableException(originalReferenceId);
+    }
+
+    const alreadyRefunded = useEntry.refundedAmount ?? 0;
+    const refundable = useEntry.amount - alreadyRefunded;
+    const refundAmount = amount ?? refundable;
+
+    if (refundAmount <= 0 || refundAmount > refundable) {
+      throw new RefundExceedsUsageException(
+        originalReferenceId,
+        refundAmount,
+        refundable,
+      );
+    }
+    const reserved = await this.pointRepository.reserveRefund(
+      useEntry._id as Types.ObjectId,
+      refundAmount,
+    );
+    if (!reserved) {
+      throw new RefundExceedsUsageException(
+        originalReferenceId,
+        refundAmount,
+        refundable,
+      );
+    }
+
+    const restoredLots = await this.restoreLots(
+      useEntry.consumedLots ?? [],
+      alreadyRefunded,
+      refundAmount,
+    );
+    const balance = await this.pointsBalanceRepository.refundPoint(userId, refundAmount);
+    if (!balance) {
+      throw new RefundExceedsUsageException(
+        originalReferenceId,
+        refundAmount,
+        refundable,
+      );
     }
-    return this.pointsBalanceRepository.usePoint(userId, amount);
+
+    await this.writeLedger(
+      Point.createRefundPoint(
+        userId,
+        refundAmount,
+        originalReferenceId,
+        options,
+        restoredLots,
+      ),
+      balance,
+    );
+    return this.toBalanceResult(userId, balance);
   }
 
   @Transactional()
@@ -68,8 +282,195 @@ export class PointsService {
   private async existingPointsCheck(userId: string): Promise<PointBalance> {
     const existingPoints = await this.pointsBalanceRepository.findByUserId(userId);
     if (!existingPoints) {
-      throw new Error("Points not found for this user");
+      throw new PointBalanceNotFoundException(userId);
     }
     return existingPoints;
   }
+
+  private async credit(
+    userId: string,
+    amount: number,
+    options: PointLedgerOptions,
+  ): Promise<PointBalance | null> {
+    const balance = await this.pointsBalanceRepository.earnPoint(userId, amount);
+
+    await this.writeLedger(Point.createEarnPoint(userId, amount, options), balance);
+    return balance;
+  }
+
+  // 받은 포인트는 보낸 적립 건의 만료일을 그대로 따르도록 만료일별로 적립 건을 나누어 만든다
+  // 모든 건이 같은 referenceId를 가지며, 두 번째 건부터 referenceSeq로 구분한다
+  private async creditTransferredLots(
+    userId: string,
+    amount: number,
+    consumedLots: ConsumedLot[],
+    options: PointLedgerOptions,
+  ): Promise<PointBalance | null> {
+    const amountsByExpiry = new Map<number | null, number>();
+    for (const lot of consumedLots) {
+      const expiry = lot.expiresAt?.getTime() ?? null;
+      amountsByExpiry.set(expiry, (amountsByExpiry.get(expiry) ?? 0) + lot.amount);
+    }
+
+    const balance = await this.pointsBalanceRepository.earnPoint(userId, amount);
+    let referenceSeq = 0;
+    for (const [expiry, lotAmount] of amountsByExpiry) {
+      const entry = Point.createEarnPoint(userId, lotAmount, {
+        ...options,
+        expiresAt: expiry === null ? null : new Date(expiry),
+      });
+      await this.writeLedger(
+        { ...entry, referenceSeq: referenceSeq > 0 ? referenceSeq : undefined },
+        balance,
+      );
+      referenceSeq++;
+    }
+    return balance;
+  }
+
+  private async debit(
+    userId: string,
+    amount: number,
+    options: PointLedgerOptions,
+  ): Promise<{ balance: PointBalance | null; consumedLots: ConsumedLot[] }> {
+    const userPoints = await this.existingPointsCheck(userId);
+    if (userPoints.availablePoints < amount) {
+      throw new InsufficientPointsException(userId, amount, userPoints.availablePoints);
+    }
+
+    // 조회 이후 다른 요청이 잔액을 바꿨다면 갱신되지 않는다
+    const balance = await this.guardConflict(userId, () =>
+      this.pointsBalanceRepository.usePoint(userId, amount, userPoints.version),
+    );
+    if (!balance) {
+      throw new PointBalanceConflictException(userId);
+    }
+    const consumedLots = await this.consumeLots(userId, amount);
+
+    await this.writeLedger(
+      Point.createUsePoint(userId, amount, options, consumedLots),
+      balance,
+    );
+    return { balance, consumedLots };
+  }
+
+  // 나중에 차감된 적립 건부터 되돌리며, 이전 환불분(alreadyRefunded)은 건너뛴다
+  private async restoreLots(
+    consumedLots: ConsumedLot[],
+    alreadyRefunded: number,
+    amount: number,
+  ): Promise<ConsumedLot[]> {
+    const restoredLots: ConsumedLot[] = [];
+    let skip = alreadyRefunded;
+    let remaining = amount;
+
+    for (const lot of [...consumedLots].reverse()) {
+      if (remaining <= 0) break;
+
+      const skipped = Math.min(skip, lot.amount);
+      skip -= skipped;
+      const give = Math.min(remaining, lot.amount - skipped);
+      if (give <= 0) continue;
+
+      await this.pointRepository.restoreLot(lot.pointId, give);
+      restoredLots.push({ pointId: lot.pointId, amount: give, expiresAt: lot.expiresAt });
+      remaining -= give;
+    }
+    return restoredLots;
+  }
+
+  // 같은 referenceId로 이미 처리된 요청이면 당시의 잔액을 돌려준다
+  private async findReplayedBalance(
+    userId: string,
+    type: PointType,
+    amount: number | undefined,
+    referenceId?: string,
+  ): Promise<PointBalanceResult | null> {
+    if (!referenceId) return null;
+
+    const entry = await this.pointRepository.findByReference(userId, type, referenceId);
+    if (!entry) return null;
+
+    // amount가 없으면(전액 환불 등) 금액 비교를 생략한다
+    const amountMismatch = amount !== undefined && entry.amount !== amount;
+    if (amountMismatch || !entry.balanceSnapshot) {
+      throw new IdempotencyKeyConflictException(referenceId);
+    }
+    return this.toResponse(userId, entry.balanceSnapshot);
+  }
+
+  private toBalanceResult(
+    userId: string,
+    balance: PointBalance | null,
+  ): PointBalanceResult | null {
+    return balance && this.toResponse(userId, BalanceSnapshot.from(balance));
+  }
+
+  private toResponse(userId: string, snapshot: BalanceSnapshot): PointBalanceResult {
+    const { totalPoints, availablePoints, usedPoints, expiredPoints } = snapshot;
+    return { userId, totalPoints, availablePoints, usedPoints, expiredPoints };
+  }
+
+  // 동시에 같은 referenceId로 들어온 요청은 원장의 unique 인덱스에서 거부된다
+  // 먼저 커밋된 요청이 있으므로 트랜잭션을 다시 실행하여 그 결과를 돌려주게 한다
+  private async writeLedger(
+    entry: Partial<Point>,
+    balance: PointBalance | null,
+  ): Promise<void> {
+    try {
+      await this.pointRepository.create({
+        ...entry,
+        balanceSnapshot: balance ? BalanceSnapshot.from(balance) : undefined,
+      });
+    } catch (error) {
+      const duplicated =
+        error instanceof mongo.MongoServerError && error.code === DUPLICATE_KEY_ERROR;
+      if (entry.referenceId && duplicated) {
+        error.addErrorLabel(TRANSIENT_TRANSACTION_ERROR);
+        throw new IdempotencyKeyConflictException(entry.referenceId, error);
+      }
+      throw error;
+    }
+  }
+
+  // 적립 건을 만료일이 빠른 순서(FIFO)로 차감하고 차감 내역을 반환
+  private async consumeLots(userId: string, amount: number): Promise<ConsumedLot[]> {
+    const lots = await this.pointRepository.findConsumableLots(userId);
+    const consumedLots: ConsumedLot[] = [];
+    let remaining = amount;
+
+    for (const lot of lots) {
+      if (remaining <= 0) break;
+
+      const pointId = lot._id as Types.ObjectId;
+      const take = Math.min(remaining, lot.remainingAmount ?? 0);
+      const consumed = await this.guardConflict(userId, () =>
+        this.pointRepository.consumeLot(pointId, take),
+      );
+      if (!consumed) {
+        // 조회 이후 다른 요청이 같은 적립 건을 차감한 경우
+        throw new PointBalanceConflictException(userId);
+      }
+      consumedLots.push({ pointId, amount: take, expiresAt: lot.expiresAt ?? null });
+      remaining -= take;
+    }
+
+    if (remaining > 0) {
+      throw new InsufficientPointsException(userId, amount, amount - remaining);
+    }
+    return consumedLots;
+  }
+
+  // 다른 트랜잭션과의 쓰기 충돌(WriteConflict)도 재시도 가능한 충돌로 알린다
+  // 원래 오류를 cause로 남겨 트랜잭션이 재시도 횟수 안에서는 다시 실행되게 한다
+  private async guardConflict<R>(userId: string, write: () => Promise<R>): Promise<R> {
+    try {
+      return await write();
+    } catch (error) {
+      if (isRetryableTransactionError(error)) {
+        throw new PointBalanceConflictException(userId, error);
+      }
+      throw error;
+    }
+  }
 }
@@ -0,0 +1,178 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { getConnectionToken, getModelToken, MongooseModule } from "@nestjs/mongoose";
+import { MongoMemoryReplSet } from "mongodb-memory-server";
+import { Connection, Model, Types } from "mongoose";
+import { PointBackfillService } from "./pointBackfill.service";
+import { PointReconciliationService } from "./pointReconciliation.service";
+import { PointsService } from "./point.service";
+import { PointBalance, PointBalanceSchema } from "../schema/pointBalance.schema";
+import { Point, PointSchema, PointType } from "../schema/point.schema";
+import { PointBalanceRepository } from "../repository/pointBalance.repository";
+import { PointRepository } from "../repository/point.repository";
+import { TransactionModule } from "../../common/transaction/transaction.module";
+import { LockModule } from "../../common/lock/lock.module";
+
+describe(PointBackfillService.name, () => {
+  let mongod: MongoMemoryReplSet;
+  let mongoConnection: Connection;
+  let pointBackfillService: PointBackfillService;
+  let pointReconciliationService: PointReconciliationService;
+  let pointsService: PointsService;
+  let pointRepository: PointRepository;
+  let pointBalanceModel: Model<PointBalance>;
+  let pointModel: Model<Point>;
+
+  beforeAll(async () => {
+    // MongoDB Replica Set을 사용하여 트랜잭션 지원
+    mongod = await MongoMemoryReplSet.create({
+      replSet: {
+        name: "testset",
+        count: 1,
+        storageEngine: "wiredTiger",
+      },
+    });
+    const uri = mongod.getUri();
+
+    const testModule: TestingModule = await Test.createTestingModule({
+      imports: [
+        MongooseModule.forRoot(uri),
+        TransactionModule.forRoot(),
+        LockModule.forRoot(),
+        MongooseModule.forFeature([
+          {
+            name: PointBalance.name,
+            schema: PointBalanceSchema,
+          },
+          {
+            name: Point.name,
+            schema: PointSchema,
+          },
+        ]),
+      ],
+      providers: [
+        PointBalanceRepository,
+        PointRepository,
+        PointsService,
+        PointReconciliationService,
+        PointBackfillService,
+      ],
+    }).compile();
+
+    mongoConnection = testModule.get<Connection>(getConnectionToken());
+    pointBackfillService = testModule.get<PointBackfillService>(PointBackfillService);
+    pointReconciliationService = testModule.get<PointReconciliationService>(
+      PointReconciliationService,
+    );
+    pointsService = testModule.get<PointsService>(PointsService);
+    pointRepository = testModule.get<PointRepository>(PointRepository);
+    pointBalanceModel = testModule.get<Model<PointBalance>>(
+      getModelToken(PointBalance.name),
+    );
+    pointModel = testModule.get<Model<Point>>(getModelToken(Point.name));
+  });
+
+  afterEach(async () => {
+    await new Promise((res) => setTimeout(res, 200));
+    await mongoConnection.dropDatabase();
+  });
+
+  afterAll(async () => {
+    await mongoConnection.dropDatabase();
+    await mongoConnection.close();
+    await mongod.stop();
+  });
+
+  // 원장 도입 전처럼 가입 적립 건만 남기고 이후 적립/사용은 잔액에만 반영한다
+  const createLegacyUser = async (
+    userId: string,
+    initPoint: number,
+    earned: number,
+    used: number,
+  ) => {
+    await pointBalanceModel.create({
+      userId,
+      totalPoints: initPoint + earned,
+      availablePoints: initPoint + earned - used,
+      usedPoints: used,
+      expiredPoints: 0,
+    });
+    await pointModel.collection.insertOne({
+      userId,
+      amount: initPoint,
+      type: PointType.EARN,
+      description: "가입 시 기본 포인트",
+      expiresAt: null,
+      isActive: true,
+      createdAt: new Date(),
+    });
+  };
+
+  describe("backfillUser", () => {
+    test("should give legacy balances spendable lots", async () => {
+      // Given
+      const userId = new Types.ObjectId().toString();
+      await createLegacyUser(userId, 1000, 500, 1200);
+
+      // When
+      const backfilled = await pointBackfillService.backfillUser(userId);
+
+      // Then : 먼저 적립된 가입 포인트부터 사용된 것으로 본다
+      expect(backfilled).toBe(true);
+      const lots = await pointRepository.find(
+        { userId, type: PointType.EARN },
+        { sort: { createdAt: 1, _id: 1 } },
+      );
+      expect(lots.map((lot) => lot.remainingAmount)).toEqual([0, 300]);
+      const result = await pointsService.usePoints(userId, 300);
+      expect(result!.availablePoints).toBe(0);
+    });
+
+    test("should keep the ledger consistent with the balance", async () => {
+      // Given
+      const userId = new Types.ObjectId().toString();
+      await createLegacyUser(userId, 1000, 500, 200);
+
+      // When
+      await pointBackfillService.backfillUser(userId);
+
+      // Then
+      const result = await pointReconciliationService.reconcile({ userId });
+      expect(result.mismatches).toHaveLength(0);
+      const [use] = await pointRepository.find({ userId, type: PointType.USE });
+      expect(use.amount).toBe(200);
+    });
+
+    test("should skip users whose ledger already has lots", async () => {
+      // Given
+      const userId = new Types.ObjectId().toString();
+      await pointsService.createPointBalance(userId, 1000);
+
+      // When
+      const backfilled = await pointBackfillService.backfillUser(userId);
+
+      // Then
+      expect(backfilled).toBe(false);
+      expect(await pointRepository.count({ userId })).toBe(1);
+    });
+  });
+
+  describe("backfillAll", () => {
+    test("should backfill every legacy user once", async () => {
+      // Given
+      const legacyUser = new Types.ObjectId().toString();
+      const currentUser = new Types.ObjectId().toString();
+      await createLegacyUser(legacyUser, 1000, 0, 0);
+      await pointsService.createPointBalance(currentUser, 1000);
+
+      // When
+      const first = await pointBackfillService.backfillAll();
+      const second = await pointBackfillService.backfillAll();
+
+      // Then
+      expect(first).toEqual({ checkedUsers: 2, backfilledUsers: 1, failedUsers: [] });
+      expect(second.backfilledUsers).toBe(0);
+      const [lot] = await pointRepository.find({ userId: legacyUser });
+      expect(lot.remainingAmount).toBe(1000);
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { Types } from "mongoose";
+import { PointRepository } from "../repository/point.repository";
+import { PointBalanceRepository } from "../repository/pointBalance.repository";
+import { Transactional } from "../../common/decorator/transactional.decorator";
+import { WithUserLock } from "../../common/decorator/withUserLock.decorator";
+import { Point, PointType } from "../schema/point.schema";
+
+export interface PointBackfillResult {
+  checkedUsers: number;
+  backfilledUsers: number;
+  failedUsers: string[];
+}
+
+// 원장(Point)과 적립 건 도입 전에 만들어진 잔액을 원장에 옮겨 적는다
+@Injectable()
+export class PointBackfillService {
+  private readonly logger = new Logger(PointBackfillService.name);
+
+  constructor(
+    private readonly pointRepository: PointRepository,
+    private readonly pointsBalanceRepository: PointBalanceRepository,
+  ) {}
+
+  async backfillAll(): Promise<PointBackfillResult> {
+    const result: PointBackfillResult = {
+      checkedUsers: 0,
+      backfilledUsers: 0,
+      failedUsers: [],
+    };
+
+    const balances = this.pointsBalanceRepository
+      .withDeleted()
+      .stream({}, { lean: true, projection: { userId: 1 } });
+    for await (const { userId } of balances) {
+      result.checkedUsers++;
+      try {
+        if (await this.backfillUser(userId)) {
+          result.backfilledUsers++;
+        }
+      } catch (error) {
+        this.logger.error(`Failed to backfill ledger for user ${userId}`, error);
+        result.failedUsers.push(userId);
+      }
+    }
+    return result;
+  }
+
+  // 남은 금액이 없는 적립 건이 있거나 원장이 비어 있으면 아직 옮겨 적지 않은 사용자다
+  async needsBackfill(userId: string): Promise<boolean> {
+    return (
+      (await this.pointRepository.hasLegacyLots(userId)) ||
+      !(await this.pointRepository.hasLedger(userId))
+    );
+  }
+
+  // 옮겨 적지 않은 사용자만 처리하므로 다시 실행해도 안전하다
+  @WithUserLock(0)
+  @Transactional()
+  async backfillUser(userId: string): Promise<boolean> {
+    const balance = await this.pointsBalanceRepository.withDeleted().findByUserId(userId);
+    if (!balance || !(await this.needsBackfill(userId))) {
+      return false;
+    }
+    const legacyLots = await this.pointRepository.findLegacyLots(userId);
+    const [totals] = await this.pointRepository.aggregateLedgerTotals(userId);
+
+    // 잔액에는 반영됐지만 원장에 없는 금액
+    const ledger = totals ?? { earned: 0, used: 0, expired: 0, refunded: 0 };
+    const missingEarned = Math.max(balance.totalPoints - ledger.earned, 0);
+    const missingUsed = (balance.usedPoints ?? 0) - (ledger.used - ledger.refunded);
+    const missingExpired = (balance.expiredPoints ?? 0) - ledger.expired;
+
+    // 이미 남은 금액이 기록된 적립 건의 몫을 뺀 나머지가 옮겨 적을 적립 건에 남는다
+    const lots = await this.pointRepository.findConsumableLots(userId);
+    const unspent =
+      balance.availablePoints -
+      lots.reduce((sum, lot) => sum + (lot.remainingAmount ?? 0), 0);
+    const remaining = this.allocateRemaining(
+      [...legacyLots.map((lot) => lot.amount), missingEarned],
+      unspent,
+    );
+
+    for (const [i, lot] of legacyLots.entries()) {
+      await this.pointRepository.setLegacyRemainingAmount(
+        lot._id as Types.ObjectId,
+        remaining[i],
+      );
+    }
+    if (missingEarned > 0) {
+      await this.pointRepository.create(
+        Point.createBackfillPoint(
+          userId,
+          PointType.EARN,
+          missingEarned,
+          remaining.at(-1),
+        ),
+      );
+    }
+    // 도입 전 사용/소멸 내역은 어느 적립 건에서 차감됐는지 알 수 없어 금액만 기록한다
+    if (missingUsed > 0) {
+      await this.pointRepository.create(
+        Point.createBackfillPoint(userId, PointType.USE, missingUsed),
+      );
+    }
+    if (missingExpired > 0) {
+      await this.pointRepository.create(
+        Point.createBackfillPoint(userId, PointType.EXPIRE, missingExpired),
+      );
+    }
+    return true;
+  }
+
+  ///// private //////
+
+  // 먼저 적립된 건부터 차감된 것으로 보고, 남은 포인트는 나중 건부터 채운다
+  private allocateRemaining(amounts: number[], unspent: number): number[] {
+    const remaining = amounts.map(() => 0);
+    let left = unspent;
+    for (let i = amounts.length - 1; i >= 0 && left > 0; i--) {
+      remaining[i] = Math.min(left, amounts[i]);
+      left -= remaining[i];
+    }
+    return remaining;
+  }
+}
@@ -0,0 +1,206 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { getConnectionToken, MongooseModule } from "@nestjs/mongoose";
+import { MongoMemoryReplSet } from "mongodb-memory-server";
+import { Connection, Types } from "mongoose";
+import { PointExpirationService } from "./pointExpiration.service";
+import { PointsService } from "./point.service";
+import { PointBalance, PointBalanceSchema } from "../schema/pointBalance.schema";
+import { Point, PointSchema, PointType } from "../schema/point.schema";
+import { PointBalanceRepository } from "../repository/pointBalance.repository";
+import { PointRepository } from "../repository/point.repository";
+import { TransactionModule } from "../../common/transaction/transaction.module";
+import { LockModule } from "../../common/lock/lock.module";
+
+describe(PointExpirationService.name, () => {
+  let mongod: MongoMemoryReplSet;
+  let mongoConnection: Connection;
+  let pointExpirationService: PointExpirationService;
+  let pointsService: PointsService;
+  let pointRepository: PointRepository;
+  let pointsBalanceRepository: PointBalanceRepository;
+
+  const DAY = 24 * 60 * 60 * 1000;
+
+  beforeAll(async () => {
+    // MongoDB Replica Set을 사용하여 트랜잭션 지원
+    mongod = await MongoMemoryReplSet.create({
+      replSet: {
+        name: "testset",
+        count: 1,
+        storageEngine: "wiredTiger",
+      },
+    });
+    const uri = mongod.getUri();
+
+    const testModule: TestingModule = await Test.createTestingModule({
+      imports: [
+        MongooseModule.forRoot(uri),
+        TransactionModule.forRoot(),
+        LockModule.forRoot(),
+        MongooseModule.forFeature([
+          {
+            name: PointBalance.name,
+            schema: PointBalanceSchema,
+          },
+          {
+            name: Point.name,
+            schema: PointSchema,
+          },
+        ]),
+      ],
+      providers: [
+        PointBalanceRepository,
+        PointRepository,
+        PointsService,
+        PointExpirationService,
+      ],
+    }).compile();
+
+    mongoConnection = testModule.get<Connection>(getConnectionToken());
+    pointExpirationService =
+      testModule.get<PointExpirationService>(PointExpirationService);
+    pointsService = testModule.get<PointsService>(PointsService);
+    pointRepository = testModule.get<PointRepository>(PointRepository);
+    pointsBalanceRepository =
+      testModule.get<PointBalanceRepository>(PointBalanceRepository);
+  });
+
+  afterEach(async () => {
+    await new Promise((res) => setTimeout(res, 200));
+    await mongoConnection.dropDatabase();
+  });
+
+  afterAll(async () => {
+    await mongoConnection.dropDatabase();
+    await mongoConnection.close();
+    await mongod.stop();
+  });
+
+  // 만료일이 지정된 적립 건 생성 헬퍼
+  const earnWithExpiry = async (userId: string, amount: number, expiresAt: Date) => {
+    await pointsService.addPoints(userId, amount, { expiresAt });
+  };
+
+  describe("expireUserPoints", () => {
+    test("should expire lots whose expiresAt has passed", async () => {
+      // Given
+      const userId = new Types.ObjectId().toString();
+      await pointsService.createPointBalance(userId, 1000);
+      await earnWithExpiry(userId, 300, new Date(Date.now() - DAY));
+      await earnWithExpiry(userId, 200, new Date(Date.now() + DAY));
+
+      // When
+      const expired = await pointExpirationService.expireUserPoints(userId);
+
+      // Then
+      expect(expired).toBe(300);
+      const balance = await pointsService.getPointsByUserId(userId);
+      expect(balance!.availablePoints).toBe(1200);
+      expect(balance!.expiredPoints).toBe(300);
+
+      const expireEntries = await pointRepository.find({
+        userId,
+        type: PointType.EXPIRE,
+      });
+      expect(expireEntries).toHaveLength(1);
+      expect(expireEntries[0].amount).toBe(300);
+
+      const deactivated = await pointRepository.find({ userId, isActive: false });
+      expect(deactivated).toHaveLength(1);
+    });
+
+    test("should be safe to re-run", async () => {
+      // Given
+      const userId = new Types.ObjectId().toString();
+      await pointsService.createPointBalance(userId, 0);
+      await earnWithExpiry(userId, 300, new Date(Date.now() - DAY));
+
+      // When
+      await pointExpirationService.expireUserPoints(userId);
+      const secondRun = await pointExpirationService.expireUserPoints(userId);
+
+      // Then
+      expect(secondRun).toBe(0);
+      const balance = await pointsService.getPointsByUserId(userId);
+      expect(balance!.expiredPoints).toBe(300);
+      const expireEntries = await pointRepository.find({
+        userId,
+        type: PointType.EXPIRE,
+      });
+      expect(expireEntries).toHaveLength(1);
+    });
+
+    test("should expire only the remaining amount of partially used lots", async () => {
+      // Given
+      const userId = new Types.ObjectId().toString();
+      await pointsService.createPointBalance(userId, 0);
+      await earnWithExpiry(userId, 300, new Date(Date.now() + DAY));
+      await pointsService.usePoints(userId, 100);
+
+      // When
+      const expired = await pointExpirationService.expireUserPoints(
+        userId,
+        new Date(Date.now() + 2 * DAY),
+      );
+
+      // Then
+      expect(expired).toBe(200);
+      const balance = await pointsService.getPointsByUserId(userId);
+      expect(balance!.availablePoints).toBe(0);
+      expect(balance!.usedPoints).toBe(100);
+      expect(balance!.expiredPoints).toBe(200);
+    });
+
+    test("should not expire unlimited points", async () => {
+      // Given
+      const userId = new Types.ObjectId().toString();
+      await pointsService.createPointBalance(userId, 1000);
+
+      // When
+      const expired = await pointExpirationService.expireUserPoints(userId);
+
+      // Then
+      expect(expired).toBe(0);
+    });
+  });
+
+  describe("expireAll", () => {
+    test("should expire points of every user with expired lots", async () => {
+      // Given
+      const userA = new Types.ObjectId().toString();
+      const userB = new Types.ObjectId().toString();
+      await pointsService.createPointBalance(userA, 0);
+      await pointsService.createPointBalance(userB, 0);
+      await earnWithExpiry(userA, 100, new Date(Date.now() - DAY));
+      await earnWithExpiry(userB, 200, new Date(Date.now() - DAY));
+
+      // When
+      const result = await pointExpirationService.expireAll();
+
+      // Then
+      expect(result.processedUsers).toBe(2);
+      expect(result.expiredPoints).toBe(300);
+      expect(result.failedUsers).toHaveLength(0);
+    });
+
+    test("should expire lots of soft-deleted balances without failing", async () => {
+      // Given
+      const userId = new Types.ObjectId().toString();
+      await pointsService.createPointBalance(userId, 0);
+      await earnWithExpiry(userId, 100, new Date(Date.now() - DAY));
+      await pointsService.deletePoints(userId);
+
+      // When
+      const result = await pointExpirationService.expireAll();
+      const secondRun = await pointExpirationService.expireAll();
+
+      // Then
+      expect(result.failedUsers).toHaveLength(0);
+      expect(result.expiredPoints).toBe(100);
+      expect(secondRun.processedUsers).toBe(0);
+      const balance = await pointsBalanceRepository.withDeleted().findByUserId(userId);
+      expect(balance!.expiredPoints).toBe(100);
+      expect(balance!.deletedAt).not.toBeNull();
+    });
+  });
+});
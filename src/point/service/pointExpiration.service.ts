@@ -0,0 +1,98 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { Cron, CronExpression } from "@nestjs/schedule";
+import { Types } from "mongoose";
+import { PointRepository } from "../repository/point.repository";
+import { PointBalanceRepository } from "../repository/pointBalance.repository";
+import { Transactional } from "../../common/decorator/transactional.decorator";
+import { Point } from "../schema/point.schema";
+import { InsufficientPointsException } from "../exception/point.exception";
+
+export interface PointExpirationResult {
+  processedUsers: number;
+  expiredPoints: number;
+  failedUsers: string[];
+}
+
+@Injectable()
+export class PointExpirationService {
+  private readonly logger = new Logger(PointExpirationService.name);
+
+  constructor(
+    private readonly pointRepository: PointRepository,
+    private readonly pointsBalanceRepository: PointBalanceRepository,
+  ) {}
+
+  @Cron(CronExpression.EVERY_HOUR, { name: "point-expiration" })
+  async handleExpiration(): Promise<void> {
+    const result = await this.expireAll();
+    this.logger.log(
+      `Expired ${result.expiredPoints} points for ${result.processedUsers} users` +
+        (result.failedUsers.length ? ` (failed: ${result.failedUsers.length})` : ""),
+    );
+  }
+
+  // 만료된 적립 포인트가 있는 모든 사용자를 사용자 단위 트랜잭션으로 소멸 처리
+  async expireAll(now: Date = new Date()): Promise<PointExpirationResult> {
+    const userIds = await this.pointRepository.findUserIdsWithExpirablePoints(now);
+    const result: PointExpirationResult = {
+      processedUsers: 0,
+      expiredPoints: 0,
+      failedUsers: [],
+    };
+
+    for (const userId of userIds) {
+      try {
+        result.expiredPoints += await this.expireUserPoints(userId, now);
+        result.processedUsers++;
+      } catch (error) {
+        this.logger.error(`Failed to expire points for user ${userId}`, error);
+        result.failedUsers.push(userId);
+      }
+    }
+    return result;
+  }
+
+  // 이미 비활성화된 적립 건은 조회되지 않으므로 재실행해도 중복 소멸되지 않는다
+  @Transactional()
+  async expireUserPoints(userId: string, now: Date = new Date()): Promise<number> {
+    const lots = await this.pointRepository.findExpirablePoints(userId, now);
+    if (lots.length === 0) {
+      return 0;
+    }
+
+    // 적립 건의 남은 금액만 소멸 대상
+    const consumedLots = lots
+      .filter((lot) => (lot.remainingAmount ?? 0) > 0)
+      .map((lot) => ({
+        pointId: lot._id as Types.ObjectId,
+        amount: lot.remainingAmount!,
+        expiresAt: lot.expiresAt ?? null,
+      }));
+    const amount = consumedLots.reduce((sum, lot) => sum + lot.amount, 0);
+
+    await this.pointRepository.deactivatePoints(
+      lots.map((lot) => lot._id as Types.ObjectId),
+    );
+    if (amount <= 0) {
+      return 0;
+    }
+
+    // 삭제된 잔액도 원장과 맞도록 함께 소멸시킨다. 그렇지 않으면 매 실행마다 실패한다
+    const expired = await this.pointsBalanceRepository
+      .withDeleted()
+      .expirePoint(userId, amount);
+    if (!expired) {
+      throw new InsufficientPointsException(userId, amount);
+    }
+
+    await this.pointRepository.create(
+      Point.createExpirePoint(
+        userId,
+        amount,
+        { description: "유효기간 만료" },
+        consumedLots,
+      ),
+    );
+    return amount;
+  }
+}
@@ -0,0 +1,223 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { getConnectionToken, getModelToken, MongooseModule } from "@nestjs/mongoose";
+import { MongoMemoryReplSet } from "mongodb-memory-server";
+import { Connection, Model, Types } from "mongoose";
+import { PointReconciliationService } from "./pointReconciliation.service";
+import { PointBackfillService } from "./pointBackfill.service";
+import { PointsService } from "./point.service";
+import { PointBalance, PointBalanceSchema } from "../schema/pointBalance.schema";
+import { Point, PointSchema, PointType } from "../schema/point.schema";
+import { PointBalanceRepository } from "../repository/pointBalance.repository";
+import { PointRepository } from "../repository/point.repository";
+import { TransactionModule } from "../../common/transaction/transaction.module";
+import { LockModule } from "../../common/lock/lock.module";
+
+describe(PointReconciliationService.name, () => {
+  let mongod: MongoMemoryReplSet;
+  let mongoConnection: Connection;
+  let pointReconciliationService: PointReconciliationService;
+  let pointsService: PointsService;
+  let pointBalanceModel: Model<PointBalance>;
+  let pointModel: Model<Point>;
+
+  beforeAll(async () => {
+    // MongoDB Replica Set을 사용하여 트랜잭션 지원
+    mongod = await MongoMemoryReplSet.create({
+      replSet: {
+        name: "testset",
+        count: 1,
+        storageEngine: "wiredTiger",
+      },
+    });
+    const uri = mongod.getUri();
+
+    const testModule: TestingModule = await Test.createTestingModule({
+      imports: [
+        MongooseModule.forRoot(uri),
+        TransactionModule.forRoot(),
+        LockModule.forRoot(),
+        MongooseModule.forFeature([
+          {
+            name: PointBalance.name,
+            schema: PointBalanceSchema,
+          },
+          {
+            name: Point.name,
+            schema: PointSchema,
+          },
+        ]),
+      ],
+      providers: [
+        PointBalanceRepository,
+        PointRepository,
+        PointsService,
+        PointReconciliationService,
+        PointBackfillService,
+      ],
+    }).compile();
+
+    mongoConnection = testModule.get<Connection>(getConnectionToken());
+    pointReconciliationService = testModule.get<PointReconciliationService>(
+      PointReconciliationService,
+    );
+    pointsService = testModule.get<PointsService>(PointsService);
+    pointBalanceModel = testModule.get<Model<PointBalance>>(
+      getModelToken(PointBalance.name),
+    );
+    pointModel = testModule.get<Model<Point>>(getModelToken(Point.name));
+  });
+
+  afterEach(async () => {
+    await new Promise((res) => setTimeout(res, 200));
+    await mongoConnection.dropDatabase();
+  });
+
+  afterAll(async () => {
+    await mongoConnection.dropDatabase();
+    await mongoConnection.close();
+    await mongod.stop();
+  });
+
+  // 원장을 거치지 않고 잔액만 변경하여 불일치 상황을 만든다
+  const corruptBalance = async (userId: string, availablePoints: number) => {
+    await pointBalanceModel.updateOne({ userId }, { $set: { availablePoints } });
+  };
+
+  describe("reconcile", () => {
+    test("should report no mismatch when balance matches the ledger", async () => {
+      // Given
+      const userId = new Types.ObjectId().toString();
+      await pointsService.createPointBalance(userId, 1000);
+      await pointsService.addPoints(userId, 500);
+      await pointsService.usePoints(userId, 300, { referenceId: "order-1" });
+      await pointsService.refundPoints(userId, "order-1", 100);
+
+      // When
+      const result = await pointReconciliationService.reconcile();
+
+      // Then
+      expect(result.checkedUsers).toBe(1);
+      expect(result.mismatches).toHaveLength(0);
+    });
+
+    test("should report drifted balance without repairing by default", async () => {
+      // Given
+      const userId = new Types.ObjectId().toString();
+      await pointsService.createPointBalance(userId, 1000);
+      await corruptBalance(userId, 9999);
+
+      // When
+      const result = await pointReconciliationService.reconcile();
+
+      // Then
+      expect(result.mismatches).toHaveLength(1);
+      expect(result.mismatches[0]).toMatchObject({
+        userId,
+        expected: { totalPoints: 1000, availablePoints: 1000 },
+        actual: { availablePoints: 9999 },
+        repaired: false,
+      });
+      const balance = await pointsService.getPointsByUserId(userId);
+      expect(balance!.availablePoints).toBe(9999);
+    });
+
+    test("should repair drifted balance when requested", async () => {
+      // Given
+      const userId = new Types.ObjectId().toString();
+      await pointsService.createPointBalance(userId, 1000);
+      await pointsService.usePoints(userId, 400);
+      await corruptBalance(userId, 0);
+
+      // When
+      const result = await pointReconciliationService.reconcile({ repair: true });
+
+      // Then
+      expect(result.repairedUsers).toBe(1);
+      expect(result.mismatches[0].repaired).toBe(true);
+      const balance = await pointsService.getPointsByUserId(userId);
+      expect(balance!.availablePoints).toBe(600);
+      expect(balance!.usedPoints).toBe(400);
+    });
+
+    test("should only check the given user", async () => {
+      // Given
+      const userA = new Types.ObjectId().toString();
+      const userB = new Types.ObjectId().toString();
+      await pointsService.createPointBalance(userA, 1000);
+      await pointsService.createPointBalance(userB, 1000);
+      await corruptBalance(userB, 0);
+
+      // When
+      const result = await pointReconciliationService.reconcile({ userId: userA });
+
+      // Then
+      expect(result.checkedUsers).toBe(1);
+      expect(result.mismatches).toHaveLength(0);
+    });
+
+    test("should not repair users whose balance document is missing", async () => {
+      // Given
+      const userId = new Types.ObjectId().toString();
+      await pointsService.createPointBalance(userId, 1000);
+      await pointBalanceModel.deleteOne({ userId });
+
+      // When
+      const result = await pointReconciliationService.reconcile({ repair: true });
+
+      // Then
+      expect(result.mismatches).toHaveLength(1);
+      expect(result.mismatches[0].actual).toBeNull();
+      expect(result.repairedUsers).toBe(0);
+    });
+
+    test("should report balances that have no ledger entries", async () => {
+      // Given : 원장 없이 잔액만 있는 사용자
+      const userId = new Types.ObjectId().toString();
+      await pointBalanceModel.create({ userId, totalPoints: 500, availablePoints: 500 });
+
+      // When
+      const result = await pointReconciliationService.reconcile({ repair: true });
+
+      // Then : 보고만 하고 실제 잔액을 0으로 덮어쓰지 않아야 한다
+      expect(result.checkedUsers).toBe(1);
+      expect(result.mismatches[0]).toMatchObject({
+        userId,
+        expected: { totalPoints: 0, availablePoints: 0 },
+        actual: { totalPoints: 500, availablePoints: 500 },
+        repaired: false,
+        needsBackfill: true,
+      });
+      const balance = await pointsService.getPointsByUserId(userId);
+      expect(balance!.availablePoints).toBe(500);
+    });
+
+    test("should not repair users whose ledger is not backfilled yet", async () => {
+      // Given : 가입 적립 건만 원장에 있고 이후 적립은 잔액에만 반영된 사용자
+      const userId = new Types.ObjectId().toString();
+      await pointBalanceModel.create({
+        userId,
+        totalPoints: 1500,
+        availablePoints: 1500,
+      });
+      await pointModel.collection.insertOne({
+        userId,
+        amount: 1000,
+        type: PointType.EARN,
+        isActive: true,
+        expiresAt: null,
+      });
+
+      // When
+      const result = await pointReconciliationService.reconcile({ repair: true });
+
+      // Then
+      expect(result.mismatches[0]).toMatchObject({
+        repaired: false,
+        needsBackfill: true,
+      });
+      expect(result.repairedUsers).toBe(0);
+      const balance = await pointsService.getPointsByUserId(userId);
+      expect(balance!.totalPoints).toBe(1500);
+    });
+  });
+});
@@ -0,0 +1,159 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { LedgerTotals, PointRepository } from "../repository/point.repository";
+import { PointBalanceRepository } from "../repository/pointBalance.repository";
+import { Transactional } from "../../common/decorator/transactional.decorator";
+import { PointBalance } from "../schema/pointBalance.schema";
+import { PointBackfillService } from "./pointBackfill.service";
+
+export type BalanceTotals = Pick<
+  PointBalance,
+  "totalPoints" | "availablePoints" | "usedPoints" | "expiredPoints"
+>;
+
+export interface BalanceMismatch {
+  userId: string;
+  expected: BalanceTotals;
+  actual: BalanceTotals | null;
+  repaired: boolean;
+  // 원장 도입 전 내역이 아직 옮겨 적히지 않아 원장 기준으로 복구하면 안 되는 사용자
+  needsBackfill: boolean;
+}
+
+export interface ReconciliationOptions {
+  userId?: string;
+  repair?: boolean;
+}
+
+export interface PointReconciliationResult {
+  checkedUsers: number;
+  mismatches: BalanceMismatch[];
+  repairedUsers: number;
+  failedUsers: string[];
+}
+
+const EMPTY_TOTALS: BalanceTotals = {
+  totalPoints: 0,
+  availablePoints: 0,
+  usedPoints: 0,
+  expiredPoints: 0,
+};
+
+@Injectable()
+export class PointReconciliationService {
+  private readonly logger = new Logger(PointReconciliationService.name);
+
+  constructor(
+    private readonly pointRepository: PointRepository,
+    private readonly pointsBalanceRepository: PointBalanceRepository,
+    private readonly pointBackfillService: PointBackfillService,
+  ) {}
+
+  // 원장(Point)으로부터 잔액을 다시 계산하여 PointBalance와 비교
+  async reconcile(
+    options: ReconciliationOptions = {},
+  ): Promise<PointReconciliationResult> {
+    const result: PointReconciliationResult = {
+      checkedUsers: 0,
+      mismatches: [],
+      repairedUsers: 0,
+      failedUsers: [],
+    };
+
+    for await (const totals of this.pointRepository.streamLedgerTotals(options.userId)) {
+      result.checkedUsers++;
+      await this.checkUser(totals.userId, this.toBalanceTotals(totals), options, result);
+    }
+
+    // 원장이 하나도 없는 잔액은 위 집계에 나타나지 않으므로 따로 확인한다
+    const balances = this.pointsBalanceRepository
+      .withDeleted()
+      .stream(options.userId ? { userId: options.userId } : {}, {
+        lean: true,
+        projection: { userId: 1 },
+      });
+    for await (const { userId } of balances) {
+      if (await this.pointRepository.hasLedger(userId)) {
+        continue;
+      }
+      result.checkedUsers++;
+      await this.checkUser(userId, EMPTY_TOTALS, options, result);
+    }
+    return result;
+  }
+
+  // 트랜잭션 안에서 다시 집계하여 그 사이 변경된 원장도 반영한다
+  @Transactional()
+  async repairUserBalance(userId: string): Promise<boolean> {
+    const [totals] = await this.pointRepository.aggregateLedgerTotals(userId);
+    if (!totals) {
+      return false;
+    }
+
+    const repaired = await this.pointsBalanceRepository
+      .withDeleted()
+      .overwriteTotals(userId, this.toBalanceTotals(totals));
+    return repaired !== null;
+  }
+
+  ///// private //////
+
+  private async checkUser(
+    userId: string,
+    expected: BalanceTotals,
+    options: ReconciliationOptions,
+    result: PointReconciliationResult,
+  ): Promise<void> {
+    // 삭제된 잔액도 원장과 맞는지 확인한다
+    const balance = await this.pointsBalanceRepository.withDeleted().findByUserId(userId);
+    const actual = balance ? this.pickTotals(balance) : null;
+    if (actual && this.isSameTotals(expected, actual)) {
+      return;
+    }
+
+    const mismatch: BalanceMismatch = {
+      userId,
+      expected,
+      actual,
+      repaired: false,
+      needsBackfill: await this.pointBackfillService.needsBackfill(userId),
+    };
+    result.mismatches.push(mismatch);
+
+    // 잔액 문서가 없는 사용자는 보고만 하고, 옮겨 적지 않은 원장으로 실제 잔액을 덮어쓰지 않는다
+    if (!options.repair || !actual || mismatch.needsBackfill) {
+      return;
+    }
+    try {
+      mismatch.repaired = await this.repairUserBalance(userId);
+      if (mismatch.repaired) {
+        result.repairedUsers++;
+      }
+    } catch (error) {
+      this.logger.error(`Failed to repair balance for user ${userId}`, error);
+      result.failedUsers.push(userId);
+    }
+  }
+
+  private toBalanceTotals(totals: LedgerTotals): BalanceTotals {
+    return {
+      totalPoints: totals.earned,
+      availablePoints: totals.earned - totals.used + totals.refunded - totals.expired,
+      usedPoints: totals.used - totals.refunded,
+      expiredPoints: totals.expired,
+    };
+  }
+
+  private pickTotals(balance: PointBalance): BalanceTotals {
+    const { totalPoints, availablePoints, usedPoints, expiredPoints } = balance;
+    return { totalPoints, availablePoints, usedPoints, expiredPoints };
+  }
+
+  private isSameTotals(a: BalanceTotals, b: BalanceTotals): boolean {
+    return (
+      a.totalPoints === b.totalPoints &&
+      a.availablePoints === b.availablePoints &&
+      a.usedPoints === b.usedPoints &&
+      a.expiredPoints === b.expiredPoints
+    );
+  }
+}